@@ -1,12 +1,143 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { HashRouter, Routes, Route, useNavigate, useLocation, Navigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { HashRouter, Routes, Route, useNavigate, useLocation, useParams, Navigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Decision, DecisionStatus, DecisionType } from './types';
-import * as Storage from './services/storage';
+import { Category, CategoryColor, Decision, DecisionStatus, DecisionType, HaltEmotion, MessageDraft, MessageOutcome, QuarantinedEntry, QuestionKind, ReflectionAnswer, ReflectionQuestion, WishlistItem } from './types';
+import { RepositoryContext, createDraftDecision, useRepository } from './services/repository';
+import { CATEGORY_COLORS, CATEGORY_DURATION_OPTIONS, CATEGORY_ICONS, createCategory, isBuiltInCategory, moveCategory } from './services/categories';
+import { AnswerComparison, HALT_EMOTIONS, INTENSITY_MAX, INTENSITY_MIN, QUESTION_KINDS, compareAnswers, emptyAnswer, recheckQuestions } from './services/questionnaire';
+import * as Analytics from './services/analytics';
+import * as Backup from './services/backup';
+import * as Calendar from './services/calendar';
+import * as Notifications from './services/notifications';
+import * as Alarm from './services/alarm';
+import * as AppLock from './services/appLock';
+import { AppLockContext, AppLockContextValue, useAppLock } from './services/appLock';
+import { createEncryptedRepository, resealStoredData } from './services/encryptedRepository';
+import { canShare, copyMessage, isVaultOpen, resolveMessage, shareMessage } from './services/messageVault';
+import {
+    COOL_OFF_OPTIONS, DEFAULT_COOL_OFF_DAYS, DEFAULT_RECHECK_DAYS, NewWishlistItem, RECHECK_OPTIONS,
+    confirmStillWanted, coolOffEndsAt, coolOffProgress, createWishlistItem, daysSurvived, isCoolingOff, isRecheckDue, isWebUrl, normalizeUrl, settleWishlistItem,
+} from './services/wishlist';
+import { UrgePoint, dueCheckIn, planCheckIns, recordCheckIn, urgeSeries } from './services/checkIns';
+import { DRAFT_SAVE_DELAY_MS, DraftStep, DurationBounds, canEnterStep, durationBounds, firstIncompleteStep, hasDraftProgress } from './services/draft';
+import { createCountdown, getCountdownState } from './services/countdown';
+import { BREATHING_PATTERNS, BreathPhase, BreathPhaseKind, PHASE_SCALE, cycleSeconds, playCue, vibrateCue } from './services/breathing';
+import { BREATHING_CYCLES, HOLD_TO_CONFIRM_MS, MIN_JUSTIFICATION_LENGTH, endedBySkip, forfeitedMinutes, skipDecision } from './services/emergency';
+import {
+    AlarmSettings, AlarmToneId, BREATHING_PATTERN_IDS, BUNDLED_TONES, BreathingPatternId, BreathingSettings, CHECK_IN_INTERVAL_OPTIONS, CHECK_IN_MODES, CheckInMode,
+    EMERGENCY_FRICTIONS, EmergencyFriction,
+    FADE_IN_OPTIONS, LOCALES, Locale, MAX_DURATION_OPTIONS, MAX_RING_OPTIONS, MIN_DURATION_OPTIONS, Preferences, THEMES, Theme,
+    getPreferences, resetPreferences, subscribePreferences, updatePreferences,
+} from './services/preferences';
+import { I18nContext, I18nContextValue, MessageKey, Translate, formatDate, formatDuration, formatNumber, formatTime, getLocale, setLocale, translate, useI18n } from './services/i18n';
+
+// --- Decision Metadata ---
+
+const CATEGORY_COLOR_CLASSES: Record<CategoryColor, string> = {
+    green: 'text-green-600 bg-green-50 dark:bg-green-900/30 dark:text-green-400',
+    blue: 'text-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-blue-400',
+    orange: 'text-orange-600 bg-orange-50 dark:bg-orange-900/30 dark:text-orange-400',
+    rose: 'text-rose-600 bg-rose-50 dark:bg-rose-900/30 dark:text-rose-400',
+    purple: 'text-purple-600 bg-purple-50 dark:bg-purple-900/30 dark:text-purple-400',
+    yellow: 'text-yellow-700 bg-yellow-50 dark:bg-yellow-900/20 dark:text-yellow-400',
+    teal: 'text-teal-600 bg-teal-50 dark:bg-teal-900/30 dark:text-teal-400',
+    gray: 'text-gray-600 bg-gray-100 dark:bg-gray-800',
+};
+
+// Built-ins keep a translated name until the user renames them
+const BUILT_IN_LABELS: Record<DecisionType, MessageKey> = {
+    [DecisionType.SHOPPING]: 'type.shopping',
+    [DecisionType.MESSAGE]: 'type.message',
+    [DecisionType.WORK]: 'type.work',
+    [DecisionType.FEELING]: 'type.feeling',
+    [DecisionType.OTHER]: 'type.other',
+};
+
+// Starter reflection questions; replaced wholesale once the user edits the list
+type QuestionTemplate = { id: string; kind: QuestionKind; promptKey: MessageKey };
+
+// Every category opens by measuring the urge, so it can be compared after the wait
+const CHECK_IN_QUESTIONS: QuestionTemplate[] = [
+    { id: 'intensity', kind: 'intensity', promptKey: 'questions.intensity' },
+    { id: 'halt', kind: 'emotion', promptKey: 'questions.halt' },
+];
+
+const BUILT_IN_QUESTIONS: Record<DecisionType, QuestionTemplate[]> = {
+    [DecisionType.SHOPPING]: [
+        { id: 'shopping.own', kind: 'yesNo', promptKey: 'questions.shopping.own' },
+        { id: 'shopping.price', kind: 'yesNo', promptKey: 'questions.shopping.price' },
+        { id: 'shopping.use', kind: 'yesNo', promptKey: 'questions.shopping.use' },
+    ],
+    [DecisionType.MESSAGE]: [
+        { id: 'message.calm', kind: 'yesNo', promptKey: 'questions.message.calm' },
+        { id: 'message.reader', kind: 'text', promptKey: 'questions.message.reader' },
+    ],
+    [DecisionType.WORK]: [
+        { id: 'work.worst', kind: 'text', promptKey: 'questions.work.worst' },
+        { id: 'work.involve', kind: 'text', promptKey: 'questions.work.involve' },
+    ],
+    [DecisionType.FEELING]: [
+        { id: 'feeling.name', kind: 'text', promptKey: 'questions.feeling.name' },
+        { id: 'feeling.need', kind: 'text', promptKey: 'questions.feeling.need' },
+    ],
+    [DecisionType.OTHER]: [
+        { id: 'fear', kind: 'text', promptKey: 'reflection.question' },
+    ],
+};
+
+const HALT_META: Record<HaltEmotion, { icon: string; labelKey: MessageKey }> = {
+    hungry: { icon: 'restaurant', labelKey: 'emotion.hungry' },
+    angry: { icon: 'local_fire_department', labelKey: 'emotion.angry' },
+    lonely: { icon: 'person', labelKey: 'emotion.lonely' },
+    tired: { icon: 'bedtime', labelKey: 'emotion.tired' },
+};
+
+const QUESTION_KIND_LABELS: Record<QuestionKind, MessageKey> = {
+    text: 'questionKind.text',
+    intensity: 'questionKind.intensity',
+    emotion: 'questionKind.emotion',
+    yesNo: 'questionKind.yesNo',
+};
+
+// The app's own address, for links that lead back into it from outside (calendar events)
+const appUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+const categoryName = (category: Category, t: Translate) => {
+    if (category.name.trim()) return category.name.trim();
+    return isBuiltInCategory(category.id) ? t(BUILT_IN_LABELS[category.id]) : t('category.unnamed');
+};
+
+const categoryQuestions = (category: Category, t: Translate): ReflectionQuestion[] => {
+    if (category.reflectionQuestions) return category.reflectionQuestions;
+    const templates = [...CHECK_IN_QUESTIONS, ...BUILT_IN_QUESTIONS[isBuiltInCategory(category.id) ? category.id : DecisionType.OTHER]];
+    return templates.map(({ id, kind, promptKey }) => ({ id, kind, prompt: t(promptKey) }));
+};
+
+// Human readable answer for the journal and the before/after comparison
+const formatAnswer = (answer: ReflectionAnswer, t: Translate): string => {
+    switch (answer.kind) {
+        case 'text': return answer.value;
+        case 'intensity': return answer.value === null ? '' : `${answer.value}/${INTENSITY_MAX}`;
+        case 'emotion': return answer.value.map(emotion => t(HALT_META[emotion].labelKey)).join(', ');
+        case 'yesNo': return answer.value === null ? '' : answer.value ? t('common.yes') : t('common.no');
+    }
+};
+
+// Falls back to a neutral placeholder for ids we no longer know about (e.g. a partial import)
+const resolveCategory = (categories: Category[] | null, id: string): Category =>
+    categories?.find(c => c.id === id) ?? { id, name: '', icon: 'help', color: 'gray', order: Number.MAX_SAFE_INTEGER };
+
+// Only final outcomes end up in the journal
+const OUTCOME_META: Partial<Record<DecisionStatus, { icon: string; labelKey: MessageKey; color: string }>> = {
+    [DecisionStatus.COMPLETED]: { icon: 'check_circle', labelKey: 'outcome.completed', color: 'text-green-600 bg-green-50 dark:bg-green-900/30 dark:text-green-400' },
+    [DecisionStatus.CANCELLED]: { icon: 'cancel', labelKey: 'outcome.cancelled', color: 'text-rose-600 bg-rose-50 dark:bg-rose-900/30 dark:text-rose-400' },
+};
 
-// --- Assets ---
-// Local gentle alarm sound
-const ALARM_SOUND = "/ringtone/Success-sound-effect.mp3";
+const MESSAGE_OUTCOME_LABELS: Record<MessageOutcome, MessageKey> = {
+    sent: 'vault.outcome.sent',
+    rewritten: 'vault.outcome.rewritten',
+    discarded: 'vault.outcome.discarded',
+};
 
 // --- Animation Variants ---
 
@@ -37,6 +168,85 @@ const itemVariant = {
     show: { opacity: 1, y: 0 }
 };
 
+// --- Money Helpers ---
+
+const CURRENCIES = ['IDR', 'USD', 'EUR', 'SGD', 'MYR'];
+
+const formatMoney = (locale: Locale, amount: number, currency: string) =>
+    formatNumber(locale, amount, { style: 'currency', currency, maximumFractionDigits: currency === 'IDR' ? 0 : 2 });
+
+const formatMonthLabel = (locale: Locale, month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return formatDate(locale, new Date(year, monthIndex - 1, 1).getTime(), { month: 'long', year: 'numeric' });
+};
+
+// --- Data Hooks ---
+
+// Journal entries from the repository; null until the first read resolves
+const useHistory = (): Decision[] | null => {
+    const repository = useRepository();
+    const [history, setHistory] = useState<Decision[] | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        repository.getHistory().then(entries => {
+            if (!cancelled) setHistory(entries);
+        });
+        return () => { cancelled = true; };
+    }, [repository]);
+
+    return history;
+};
+
+// Wishlist items, oldest first; null until loaded. `reload` re-reads after a change
+const useWishlist = (): [WishlistItem[] | null, () => Promise<void>] => {
+    const repository = useRepository();
+    const [items, setItems] = useState<WishlistItem[] | null>(null);
+    const reload = useCallback(async () => setItems(await repository.getWishlist()), [repository]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    return [items, reload];
+};
+
+// Whether the end-of-wait alarm is sounding right now
+const useAlarmRinging = (): boolean => {
+    const [ringing, setRinging] = useState(Alarm.isAlarmRinging);
+    useEffect(() => Alarm.subscribeAlarm(setRinging), []);
+    return ringing;
+};
+
+const usePreferences = (): Preferences => {
+    const [preferences, setPreferences] = useState(getPreferences);
+    useEffect(() => subscribePreferences(setPreferences), []);
+    return preferences;
+};
+
+// Wait limits for a draft's category; only the settings until categories load
+const useDurationBounds = (categoryId: string): DurationBounds => {
+    const categories = useCategories();
+    const { durations } = usePreferences();
+    return durationBounds(categories?.find(c => c.id === categoryId) ?? null, durations);
+};
+
+// All categories including archived ones, in picker order; null until loaded
+const useCategories = (): Category[] | null => {
+    const repository = useRepository();
+    const [categories, setCategories] = useState<Category[] | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        repository.getCategories().then(entries => {
+            if (!cancelled) setCategories(entries);
+        });
+        return () => { cancelled = true; };
+    }, [repository]);
+
+    return categories;
+};
+
 // --- Shared Components ---
 
 const Layout: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = "" }) => (
@@ -73,12 +283,38 @@ const Button: React.FC<{
     );
 };
 
+const THEME_META: Record<Theme, { icon: string; labelKey: MessageKey }> = {
+    light: { icon: 'light_mode', labelKey: 'theme.light' },
+    dark: { icon: 'dark_mode', labelKey: 'theme.dark' },
+    system: { icon: 'brightness_auto', labelKey: 'theme.system' },
+};
+
+// Cycles light → dark → system
+const ThemeToggle: React.FC = () => {
+    const { t } = useI18n();
+    const { theme } = usePreferences();
+    const next = THEMES[(THEMES.indexOf(theme) + 1) % THEMES.length];
+
+    return (
+        <motion.button
+            whileTap={{ scale: 0.8 }}
+            onClick={() => updatePreferences({ theme: next })}
+            aria-label={t('theme.switch', { theme: t(THEME_META[theme].labelKey) })}
+            title={t(THEME_META[theme].labelKey)}
+            className="flex size-10 items-center justify-center rounded-full text-slate-900 dark:text-white hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+        >
+            <span className="material-symbols-outlined text-[24px]">{THEME_META[theme].icon}</span>
+        </motion.button>
+    );
+};
+
 const Header: React.FC<{
     title?: string;
     onBack?: () => void;
     step?: string;
     hideBack?: boolean;
-}> = ({ title, onBack, step, hideBack }) => (
+    action?: React.ReactNode;
+}> = ({ title, onBack, step, hideBack, action }) => (
     <header className="flex items-center justify-between p-6 pb-2 z-20">
         {!hideBack ? (
             <motion.button
@@ -94,42 +330,32 @@ const Header: React.FC<{
             {step && <span className="block text-xs font-semibold tracking-widest text-gray-400 uppercase mb-1">{step}</span>}
             {title && <h2 className="text-lg font-bold text-slate-900 dark:text-white leading-tight">{title}</h2>}
         </div>
-        <div className="size-10"></div>
+        {action ?? <ThemeToggle />}
     </header>
 );
 
 
 
 const NotificationRequestBanner: React.FC = () => {
+    const { t } = useI18n();
+    const { notifications } = usePreferences();
     const [showPermissionRequest, setShowPermissionRequest] = useState(false);
 
     useEffect(() => {
-        // Check notification permission on mount, ensuring API exists
-        if (typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'default') {
-            setShowPermissionRequest(true);
-        }
-    }, []);
+        // Only for users who want reminders and haven't answered the browser prompt yet
+        setShowPermissionRequest(notifications.enabled && Notifications.getPermission() === 'default');
+    }, [notifications.enabled]);
 
     const requestNotification = async () => {
-        if (!('Notification' in window)) return;
-
-        try {
-            const result = await Notification.requestPermission();
-            if (result === 'granted') {
-                setShowPermissionRequest(false);
-                // Test notification
-                try {
-                    new Notification("Notifikasi Aktif!", { body: "Kami akan kabari saat waktunya tiba.", icon: "https://picsum.photos/192/192" });
-                } catch (e) {
-                    console.error("Notification creation failed", e);
-                }
-            } else {
-                // User denied or dismissed
-                setShowPermissionRequest(false);
+        const result = await Notifications.requestPermission();
+        setShowPermissionRequest(false);
+        if (result === 'granted') {
+            // Test notification
+            try {
+                new Notification(t('notificationBanner.testTitle'), { body: t('notificationBanner.testBody'), icon: "https://picsum.photos/192/192" });
+            } catch (e) {
+                console.error("Notification creation failed", e);
             }
-        } catch (error) {
-            console.error("Notification permission request failed", error);
-            setShowPermissionRequest(false);
         }
     };
 
@@ -144,24 +370,76 @@ const NotificationRequestBanner: React.FC = () => {
             <div className="flex items-center gap-3">
                 <span className="material-symbols-outlined text-primary text-2xl">notifications_active</span>
                 <div>
-                    <p className="font-bold text-sm">Aktifkan Notifikasi?</p>
-                    <p className="text-xs text-gray-500">Biar kamu tau saat waktunya habis.</p>
+                    <p className="font-bold text-sm">{t('notificationBanner.title')}</p>
+                    <p className="text-xs text-gray-500">{t('notificationBanner.desc')}</p>
                 </div>
             </div>
             <button
                 onClick={requestNotification}
                 className="px-4 py-2 bg-primary text-white text-xs font-bold rounded-xl shadow-lg shadow-primary/20 hover:scale-105 transition-transform"
             >
-                Aktifkan
+                {t('notificationBanner.enable')}
             </button>
         </motion.div>
     );
 };
 
+const MoneySavedCard: React.FC<{ moneySaved: Analytics.MoneySaved }> = ({ moneySaved }) => {
+    const { t, locale } = useI18n();
+    const [expanded, setExpanded] = useState(false);
+    const currencies = Object.keys(moneySaved.totals);
+
+    if (currencies.length === 0) return null;
+
+    return (
+        <motion.button
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.9 }}
+            onClick={() => setExpanded(e => !e)}
+            className="w-full mt-6 p-4 rounded-3xl bg-white/70 dark:bg-surface-dark/70 backdrop-blur-md border border-primary/20 shadow-sm text-left"
+        >
+            <div className="flex items-center gap-3">
+                <div className="size-10 rounded-full flex items-center justify-center text-primary bg-green-50 dark:bg-green-900/20">
+                    <span className="material-symbols-outlined">savings</span>
+                </div>
+                <div className="flex-1">
+                    <p className="text-xs font-semibold tracking-widest text-gray-400 uppercase">{t('money.title')}</p>
+                    {currencies.map(c => (
+                        <p key={c} className="text-xl font-extrabold text-primary-dark dark:text-primary">{formatMoney(locale, moneySaved.totals[c], c)}</p>
+                    ))}
+                </div>
+                <span className="material-symbols-outlined text-gray-400">{expanded ? 'expand_less' : 'expand_more'}</span>
+            </div>
+
+            {expanded && (
+                <div className="mt-4 pt-3 border-t border-gray-100 dark:border-gray-800 space-y-2">
+                    {moneySaved.byMonth.map(({ month, totals }) => (
+                        <div key={month} className="flex justify-between gap-4 text-sm">
+                            <span className="text-gray-500 dark:text-gray-400">{formatMonthLabel(locale, month)}</span>
+                            <span className="font-bold text-right">
+                                {Object.keys(totals).map(c => formatMoney(locale, totals[c], c)).join(' · ')}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </motion.button>
+    );
+};
+
 // --- Screens ---
 
-const LandingScreen: React.FC = () => {
+const LandingScreen: React.FC<{
+    activeCount?: number,
+    draft: Decision,
+    onDiscardDraft: () => void
+}> = ({ activeCount = 0, draft, onDiscardDraft }) => {
     const navigate = useNavigate();
+    const { t } = useI18n();
+    const history = useHistory();
+    const moneySaved = useMemo(() => Analytics.computeMoneySaved(history ?? []), [history]);
+    const draftBounds = useDurationBounds(draft.categoryId);
     return (
         <Layout>
             <NotificationRequestBanner />
@@ -184,7 +462,7 @@ const LandingScreen: React.FC = () => {
                 transition={pageTransition}
                 className="flex flex-col h-full"
             >
-                <div className="w-full flex justify-center pt-8 pb-2">
+                <div className="w-full flex justify-center pt-8 pb-2 relative">
                     <motion.div
                         initial={{ y: -50, opacity: 0 }}
                         animate={{ y: 0, opacity: 1 }}
@@ -194,6 +472,13 @@ const LandingScreen: React.FC = () => {
                         <span className="material-symbols-outlined text-primary">spa</span>
                         <h2 className="text-sm font-bold tracking-wide uppercase">SecondThought</h2>
                     </motion.div>
+                    <motion.button
+                        whileTap={{ scale: 0.8 }}
+                        onClick={() => navigate('/settings')}
+                        className="absolute right-6 top-8 flex size-10 items-center justify-center rounded-full text-slate-900 dark:text-white hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+                    >
+                        <span className="material-symbols-outlined text-[24px]">settings</span>
+                    </motion.button>
                 </div>
 
                 <main className="flex-1 flex flex-col items-center justify-center px-6 z-10">
@@ -205,7 +490,7 @@ const LandingScreen: React.FC = () => {
                     >
                         <div className="absolute w-[80%] h-[80%] bg-white dark:bg-white/5 rounded-full shadow-xl shadow-primary/5 animate-float" />
                         <div className="relative w-full h-full rounded-3xl overflow-hidden bg-gray-100 shadow-2xl">
-                            <img src="https://picsum.photos/600/400" alt="Cloud illustration" className="w-full h-full object-cover opacity-90" />
+                            <img src="https://picsum.photos/600/400" alt={t('landing.imageAlt')} className="w-full h-full object-cover opacity-90" />
                             <div className="absolute inset-0 bg-gradient-to-b from-transparent via-transparent to-background-light/40 dark:to-background-dark/40" />
                         </div>
                     </motion.div>
@@ -217,7 +502,7 @@ const LandingScreen: React.FC = () => {
                             transition={{ delay: 0.5 }}
                             className="text-3xl font-extrabold text-slate-900 dark:text-white"
                         >
-                            Perlu mikir bentar?
+                            {t('landing.title')}
                         </motion.h1>
                         <motion.p
                             initial={{ opacity: 0 }}
@@ -225,19 +510,50 @@ const LandingScreen: React.FC = () => {
                             transition={{ delay: 0.7 }}
                             className="text-base text-gray-500 dark:text-gray-400 px-4"
                         >
-                            SecondThought bantu kamu ngasih jeda sebelum ambil keputusan penting.
+                            {t('landing.subtitle')}
                         </motion.p>
                     </div>
+
+                    <MoneySavedCard moneySaved={moneySaved} />
                 </main>
 
                 <div className="p-6 pb-12 flex flex-col gap-4">
-                    <Button onClick={() => navigate('/type')}>Mulai</Button>
+                    {hasDraftProgress(draft) && (
+                        <motion.div
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            className="p-4 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 shadow-sm"
+                        >
+                            <p className="text-xs font-semibold tracking-widest text-gray-400 uppercase mb-1">{t('draft.resumeTitle')}</p>
+                            <p className="font-medium truncate mb-3">"{draft.text}"</p>
+                            <div className="flex gap-4">
+                                <button onClick={() => navigate(firstIncompleteStep(draft, draftBounds))} className="flex items-center gap-1 text-sm font-bold text-primary">
+                                    {t('draft.resume')} <span className="material-symbols-outlined text-lg">arrow_forward</span>
+                                </button>
+                                <button onClick={onDiscardDraft} className="text-sm font-medium text-gray-400">{t('draft.discard')}</button>
+                            </div>
+                        </motion.div>
+                    )}
+                    <Button onClick={() => {
+                        // A new decision replaces whatever was left unfinished
+                        onDiscardDraft();
+                        navigate('/type');
+                    }}>{t('landing.start')}</Button>
+                    {activeCount > 0 && (
+                        <Button variant="secondary" onClick={() => navigate('/dashboard')}>
+                            <span className="material-symbols-outlined">hourglass_top</span> {t('landing.activeCount', { count: activeCount })}
+                        </Button>
+                    )}
+                    <Button variant="secondary" onClick={() => navigate('/journal')}>
+                        <span className="material-symbols-outlined">menu_book</span> {t('journal.title')}
+                    </Button>
+                    <WishlistButton />
                     <motion.button
                         whileHover={{ scale: 1.05 }}
                         onClick={() => navigate('/how-it-works')}
                         className="text-sm font-medium text-gray-400 underline decoration-primary/30 underline-offset-4"
                     >
-                        Gimana cara kerjanya?
+                        {t('landing.howItWorks')}
                     </motion.button>
                 </div>
             </motion.div>
@@ -247,31 +563,32 @@ const LandingScreen: React.FC = () => {
 
 const HowItWorksScreen: React.FC = () => {
     const navigate = useNavigate();
+    const { t } = useI18n();
 
     const steps = [
         {
             icon: "pause_circle",
-            title: "Tangkap Impuls",
-            desc: "Otak kita punya 'Sistem Cepat' yang sering bikin kita menyesal. Kita bantu kamu ngerem dulu.",
+            title: t('howItWorks.captureTitle'),
+            desc: t('howItWorks.captureDesc'),
             color: "text-rose-500 bg-rose-50 dark:bg-rose-900/20"
         },
         {
             icon: "hourglass_top",
-            title: "Dinginkan Pikiran",
-            desc: "Tunggu timer habis. Riset membuktikan emosi sesaat akan reda setelah beberapa menit.",
+            title: t('howItWorks.coolTitle'),
+            desc: t('howItWorks.coolDesc'),
             color: "text-blue-500 bg-blue-50 dark:bg-blue-900/20"
         },
         {
             icon: "lightbulb",
-            title: "Keputusan Sadar",
-            desc: "Setelah tenang, kamu bisa memutuskan: Lanjut, Batal, atau Tunda lagi.",
+            title: t('howItWorks.decideTitle'),
+            desc: t('howItWorks.decideDesc'),
             color: "text-primary bg-green-50 dark:bg-green-900/20"
         }
     ];
 
     return (
         <Layout>
-            <Header onBack={() => navigate('/')} title="Cara Kerja" />
+            <Header onBack={() => navigate('/')} title={t('howItWorks.title')} />
             <motion.div
                 initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
                 className="flex-1 flex flex-col px-6 pb-8 overflow-y-auto"
@@ -293,9 +610,9 @@ const HowItWorksScreen: React.FC = () => {
                 <div className="mt-auto pt-8">
                     <div className="p-6 bg-gradient-to-br from-primary/10 to-transparent rounded-3xl border border-primary/20 text-center mb-6">
                         <span className="material-symbols-outlined text-4xl text-primary mb-2">psychology</span>
-                        <p className="font-medium text-slate-700 dark:text-gray-200">"Tujuan kita bukan melarang, tapi memberimu kendali penuh."</p>
+                        <p className="font-medium text-slate-700 dark:text-gray-200">{t('howItWorks.quote')}</p>
                     </div>
-                    <Button onClick={() => navigate('/type')}>Cobain Sekarang</Button>
+                    <Button onClick={() => navigate('/type')}>{t('howItWorks.tryNow')}</Button>
                 </div>
             </motion.div>
         </Layout>
@@ -306,19 +623,14 @@ const DecisionTypeScreen: React.FC<{
     setDraft: React.Dispatch<React.SetStateAction<Decision>>
 }> = ({ setDraft }) => {
     const navigate = useNavigate();
+    const { t } = useI18n();
+    const categories = useCategories();
 
-    const handleSelect = (type: DecisionType) => {
-        setDraft(prev => ({ ...prev, type }));
+    const handleSelect = (categoryId: string) => {
+        setDraft(prev => ({ ...prev, categoryId }));
         navigate('/input');
     };
 
-    const types = [
-        { type: DecisionType.SHOPPING, icon: 'shopping_cart', label: 'Beli sesuatu', color: 'text-green-600 bg-green-50 dark:bg-green-900/30 dark:text-green-400' },
-        { type: DecisionType.MESSAGE, icon: 'chat_bubble', label: 'Mau kirim pesan', color: 'text-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-blue-400' },
-        { type: DecisionType.WORK, icon: 'work', label: 'Urusan kerja', color: 'text-orange-600 bg-orange-50 dark:bg-orange-900/30 dark:text-orange-400' },
-        { type: DecisionType.FEELING, icon: 'favorite', label: 'Perasaan', color: 'text-rose-600 bg-rose-50 dark:bg-rose-900/30 dark:text-rose-400' },
-    ];
-
     return (
         <Layout>
             <Header onBack={() => navigate('/')} />
@@ -327,8 +639,8 @@ const DecisionTypeScreen: React.FC<{
                 className="px-6 pt-2 pb-6 flex-1 flex flex-col"
             >
                 <div className="mb-8">
-                    <h1 className="text-3xl font-bold mb-2">Ini tentang apa?</h1>
-                    <p className="text-gray-500 dark:text-gray-400">Tenang, ini cuma buat kamu.</p>
+                    <h1 className="text-3xl font-bold mb-2">{t('type.title')}</h1>
+                    <p className="text-gray-500 dark:text-gray-400">{t('type.subtitle')}</p>
                 </div>
 
                 <motion.div
@@ -337,32 +649,30 @@ const DecisionTypeScreen: React.FC<{
                     animate="show"
                     className="grid grid-cols-2 gap-4"
                 >
-                    {types.map((t) => (
+                    {categories?.filter(c => !c.archived).map(category => (
                         <motion.button
-                            key={t.type}
+                            key={category.id}
                             variants={itemVariant}
                             whileHover={{ scale: 1.03, y: -2 }}
                             whileTap={{ scale: 0.95 }}
-                            onClick={() => handleSelect(t.type)}
+                            onClick={() => handleSelect(category.id)}
                             className="flex flex-col items-center justify-center gap-3 rounded-3xl bg-surface-light dark:bg-surface-dark p-6 shadow-sm border border-transparent hover:border-primary/50 transition-colors"
                         >
-                            <div className={`flex size-14 items-center justify-center rounded-full ${t.color}`}>
-                                <span className="material-symbols-outlined text-[28px]">{t.icon}</span>
+                            <div className={`flex size-14 items-center justify-center rounded-full ${CATEGORY_COLOR_CLASSES[category.color]}`}>
+                                <span className="material-symbols-outlined text-[28px]">{category.icon}</span>
                             </div>
-                            <span className="font-bold text-sm">{t.label}</span>
+                            <span className="font-bold text-sm text-center">{categoryName(category, t)}</span>
                         </motion.button>
                     ))}
                     <motion.button
                         variants={itemVariant}
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
-                        onClick={() => handleSelect(DecisionType.OTHER)}
-                        className="col-span-2 flex items-center justify-center gap-4 rounded-3xl bg-surface-light dark:bg-surface-dark p-6 shadow-sm border border-transparent hover:border-primary/50 transition-colors"
+                        onClick={() => navigate('/categories')}
+                        className="col-span-2 flex items-center justify-center gap-4 rounded-3xl border-2 border-dashed border-gray-200 dark:border-gray-700 p-6 text-gray-500 dark:text-gray-400 hover:border-primary/50 transition-colors"
                     >
-                        <div className="flex size-12 items-center justify-center rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600">
-                            <span className="material-symbols-outlined">psychology</span>
-                        </div>
-                        <span className="font-bold">Lainnya...</span>
+                        <span className="material-symbols-outlined">tune</span>
+                        <span className="font-bold">{t('type.manage')}</span>
                     </motion.button>
                 </motion.div>
             </motion.div>
@@ -375,26 +685,44 @@ const DecisionInputScreen: React.FC<{
     setDraft: React.Dispatch<React.SetStateAction<Decision>>
 }> = ({ draft, setDraft }) => {
     const navigate = useNavigate();
+    const { t } = useI18n();
     const [text, setText] = useState(draft.text);
+    const [amount, setAmount] = useState(draft.amount !== undefined ? String(draft.amount) : '');
+    const [currency, setCurrency] = useState(draft.currency ?? CURRENCIES[0]);
+    const [recipient, setRecipient] = useState(draft.message?.recipient ?? '');
+    const [messageBody, setMessageBody] = useState(draft.message?.body ?? '');
+    const isShopping = draft.categoryId === DecisionType.SHOPPING;
+    const isMessage = draft.categoryId === DecisionType.MESSAGE;
+
+    // Written through as the user types so the autosaved draft keeps up
+    useEffect(() => {
+        const parsedAmount = parseFloat(amount.replace(',', '.'));
+        const hasAmount = isShopping && !isNaN(parsedAmount) && parsedAmount > 0;
+        setDraft(prev => ({
+            ...prev,
+            text,
+            amount: hasAmount ? parsedAmount : undefined,
+            currency: hasAmount ? currency : undefined,
+            message: isMessage && messageBody.trim() ? { recipient: recipient.trim(), body: messageBody } : undefined,
+        }));
+    }, [text, amount, currency, recipient, messageBody, isShopping, isMessage, setDraft]);
 
     const handleNext = () => {
-        if (!text.trim()) return;
-        setDraft(prev => ({ ...prev, text }));
-        navigate('/delay');
+        if (text.trim()) navigate('/delay');
     };
 
     return (
         <Layout>
             <motion.div className="absolute top-[-10%] right-[-10%] w-64 h-64 bg-yellow-100 dark:bg-yellow-900/20 rounded-full blur-3xl opacity-50 pointer-events-none" animate={{ scale: [1, 1.1, 1] }} transition={{ duration: 5, repeat: Infinity }} />
-            <Header onBack={() => navigate('/type')} step="Langkah 1 dari 3" />
+            <Header onBack={() => navigate('/type')} step={t('common.step', { current: 1, total: 3 })} />
 
             <motion.div
                 initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
                 className="flex-1 flex flex-col px-6 pb-6 relative z-10"
             >
                 <div className="mb-6">
-                    <h1 className="text-3xl font-bold mb-2">Ceritain sedikit</h1>
-                    <p className="text-gray-500 dark:text-gray-400">Apa yang lagi kamu pikirin? Nggak perlu panjang.</p>
+                    <h1 className="text-3xl font-bold mb-2">{t('input.title')}</h1>
+                    <p className="text-gray-500 dark:text-gray-400">{t('input.subtitle')}</p>
                 </div>
 
                 <div className="flex-1 relative group">
@@ -403,21 +731,64 @@ const DecisionInputScreen: React.FC<{
                         value={text}
                         onChange={(e) => setText(e.target.value)}
                         className="w-full h-full max-h-[400px] resize-none rounded-3xl border-0 bg-gray-50 dark:bg-[#1a2c1b] p-6 text-lg placeholder:text-gray-400 focus:ring-2 focus:ring-primary/50 transition-all shadow-inner outline-none"
-                        placeholder="Contoh: Mau checkout sepatu jam 23.30"
+                        placeholder={t('input.placeholder')}
                     />
                 </div>
 
+                {isShopping && (
+                    <div className="mt-4">
+                        <label className="block text-xs font-semibold tracking-widest text-gray-400 uppercase mb-2">{t('input.amountLabel')}</label>
+                        <div className="flex gap-2">
+                            <select
+                                value={currency}
+                                onChange={(e) => setCurrency(e.target.value)}
+                                className="w-24 p-4 rounded-2xl bg-gray-50 dark:bg-[#1a2c1b] font-bold outline-none focus:ring-2 focus:ring-primary/50"
+                            >
+                                {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                            <input
+                                type="number"
+                                inputMode="decimal"
+                                min="0"
+                                value={amount}
+                                onChange={(e) => setAmount(e.target.value)}
+                                placeholder="0"
+                                className="flex-1 p-4 rounded-2xl bg-gray-50 dark:bg-[#1a2c1b] font-bold text-lg outline-none focus:ring-2 focus:ring-primary/50"
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {isMessage && (
+                    <div className="mt-4 space-y-3">
+                        <label className="block text-xs font-semibold tracking-widest text-gray-400 uppercase">{t('vault.messageLabel')}</label>
+                        <input
+                            value={recipient}
+                            onChange={(e) => setRecipient(e.target.value)}
+                            placeholder={t('vault.recipientPlaceholder')}
+                            className="w-full p-4 rounded-2xl bg-gray-50 dark:bg-[#1a2c1b] font-bold outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                        <textarea
+                            value={messageBody}
+                            onChange={(e) => setMessageBody(e.target.value)}
+                            placeholder={t('vault.bodyPlaceholder')}
+                            className="w-full h-32 resize-none p-4 rounded-2xl bg-gray-50 dark:bg-[#1a2c1b] outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                        <p className="text-xs text-gray-400">{t('vault.inputHint')}</p>
+                    </div>
+                )}
+
                 <motion.div
                     initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
                     className="mt-4 flex items-center justify-center gap-2 text-gray-400 dark:text-gray-500 mb-4"
                 >
                     <span className="material-symbols-outlined text-[18px]">lock</span>
-                    <p className="text-xs font-medium">Tenang, ini cuma antara kita.</p>
+                    <p className="text-xs font-medium">{t('input.privacy')}</p>
                 </motion.div>
 
                 <Button onClick={handleNext} disabled={!text.trim()}>
-                    Lanjut <span className="material-symbols-outlined">arrow_forward</span>
+                    {t('common.next')} <span className="material-symbols-outlined">arrow_forward</span>
                 </Button>
             </motion.div>
         </Layout>
@@ -427,7 +798,10 @@ const DecisionInputScreen: React.FC<{
 const CustomDurationPicker: React.FC<{
     onSelect: (minutes: number) => void;
     onCancel: () => void;
-}> = ({ onSelect, onCancel }) => {
+    minMinutes?: number;
+}> = ({ onSelect, onCancel, minMinutes = 1 }) => {
+    const { t, locale } = useI18n();
+    const { durations } = usePreferences();
     const [value, setValue] = useState(1);
     const [unit, setUnit] = useState<'minutes' | 'hours' | 'days'>('hours');
     const [error, setError] = useState<string | null>(null);
@@ -442,24 +816,26 @@ const CustomDurationPicker: React.FC<{
 
     const totalMinutes = calculateMinutes();
 
-    // Validation limit: 7 days
-    const MAX_MINUTES = 7 * 24 * 60;
+    // Validation limits come from settings; a category can only raise the minimum
+    const maxMinutes = durations.maxMinutes;
+    const lowest = Math.max(1, durations.minMinutes, minMinutes);
 
     useEffect(() => {
-        if (totalMinutes > MAX_MINUTES) {
-            setError("Maksimal durasi adalah 1 minggu (7 hari).");
-        } else if (totalMinutes < 1) {
-            setError("Durasi minimal 1 menit.");
+        if (totalMinutes > maxMinutes) {
+            setError(t('picker.errorMax', { max: formatDuration(locale, maxMinutes) }));
+        } else if (totalMinutes < lowest) {
+            setError(t('picker.errorMin', { min: formatDuration(locale, lowest) }));
         } else {
             setError(null);
         }
-    }, [totalMinutes]);
+    }, [totalMinutes, maxMinutes, lowest, t, locale]);
 
     const getDurationFeedback = () => {
-        if (totalMinutes <= 30) return "Cukup untuk menenangkan nafas.";
-        if (totalMinutes <= 120) return "Bagus untuk meredakan emosi sesaat.";
-        if (totalMinutes <= 24 * 60) return "Ideal untuk keputusan belanja atau pesan.";
-        return "Cocok untuk keputusan besar dalam hidup.";
+        const duration = formatDuration(locale, totalMinutes);
+        if (totalMinutes <= 30) return t('picker.feedbackBreath', { duration });
+        if (totalMinutes <= 120) return t('picker.feedbackEmotion', { duration });
+        if (totalMinutes <= 24 * 60) return t('picker.feedbackDaily', { duration });
+        return t('picker.feedbackBig', { duration });
     };
 
     const handleConfirm = () => {
@@ -473,7 +849,7 @@ const CustomDurationPicker: React.FC<{
             className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/40 backdrop-blur-sm"
         >
             <div className="bg-white dark:bg-surface-dark w-full max-w-sm rounded-3xl p-6 shadow-2xl">
-                <h3 className="text-xl font-bold mb-4">Atur Waktu Sendiri</h3>
+                <h3 className="text-xl font-bold mb-4">{t('picker.title')}</h3>
 
                 <div className="flex gap-2 mb-6">
                     <input
@@ -490,19 +866,19 @@ const CustomDurationPicker: React.FC<{
                                 onClick={() => setUnit(u as any)}
                                 className={`flex-1 rounded-xl text-sm font-medium transition-all ${unit === u ? 'bg-white dark:bg-surface-dark shadow-sm text-primary' : 'text-gray-400'}`}
                             >
-                                {u === 'minutes' ? 'Menit' : u === 'hours' ? 'Jam' : 'Hari'}
+                                {t(u === 'minutes' ? 'picker.unitMinutes' : u === 'hours' ? 'picker.unitHours' : 'picker.unitDays', { count: value })}
                             </button>
                         ))}
                     </div>
                 </div>
 
                 <div className={`p-4 rounded-xl mb-6 text-sm ${error ? 'bg-red-50 text-red-500' : 'bg-primary/5 text-slate-600 dark:text-gray-300'}`}>
-                    {error ? error : <><span className="font-bold mr-1">💡 Info:</span> {getDurationFeedback()}</>}
+                    {error ? error : <><span className="font-bold mr-1">💡 {t('picker.info')}</span> {getDurationFeedback()}</>}
                 </div>
 
                 <div className="flex gap-3">
-                    <Button variant="ghost" onClick={onCancel} className="flex-1">Batal</Button>
-                    <Button onClick={handleConfirm} disabled={!!error} className="flex-[2]">Simpan</Button>
+                    <Button variant="ghost" onClick={onCancel} className="flex-1">{t('common.cancel')}</Button>
+                    <Button onClick={handleConfirm} disabled={!!error} className="flex-[2]">{t('common.save')}</Button>
                 </div>
             </div>
         </motion.div>
@@ -510,22 +886,45 @@ const CustomDurationPicker: React.FC<{
 };
 
 const DelaySelectionScreen: React.FC<{
+    draft: Decision,
     setDraft: React.Dispatch<React.SetStateAction<Decision>>
-}> = ({ setDraft }) => {
+}> = ({ draft, setDraft }) => {
     const navigate = useNavigate();
+    const { t, locale } = useI18n();
+    const repository = useRepository();
     const [showCustom, setShowCustom] = useState(false);
+    const categories = useCategories();
+    const category = resolveCategory(categories, draft.categoryId);
+    const { durations } = usePreferences();
+    const { minMinutes } = durationBounds(category, durations);
+    const recommended = category.defaultDurationMinutes !== undefined
+        ? Math.min(Math.max(category.defaultDurationMinutes, minMinutes), durations.maxMinutes)
+        : null;
 
     const handleSelect = (minutes: number) => {
         setDraft(prev => ({ ...prev, durationMinutes: minutes }));
         navigate('/reflection');
     };
 
+    const moveToWishlist = async () => {
+        await repository.saveWishlistItem(createWishlistItem({
+            name: draft.text.trim(),
+            amount: draft.amount,
+            currency: draft.currency,
+            coolOffDays: DEFAULT_COOL_OFF_DAYS,
+            recheckEveryDays: DEFAULT_RECHECK_DAYS,
+        }));
+        setDraft(createDraftDecision());
+        navigate('/wishlist', { replace: true });
+    };
+
     return (
         <Layout>
             {showCustom && (
                 <CustomDurationPicker
                     onSelect={handleSelect}
                     onCancel={() => setShowCustom(false)}
+                    minMinutes={minMinutes}
                 />
             )}
             <div className="absolute bottom-[20%] left-[-10%] h-[250px] w-[250px] rounded-full bg-primary/20 blur-[80px] pointer-events-none"></div>
@@ -535,10 +934,29 @@ const DelaySelectionScreen: React.FC<{
                 className="px-6 flex-1 flex flex-col pb-6"
             >
                 <div className="mb-8">
-                    <h1 className="text-3xl font-bold mb-2">Mau dijeda<br />berapa lama?</h1>
-                    <p className="text-gray-500">Kadang jawaban terbaik datang setelah jeda sejenak.</p>
+                    <h1 className="text-3xl font-bold mb-2 whitespace-pre-line">{t('delay.title')}</h1>
+                    <p className="text-gray-500">{t('delay.subtitle')}</p>
                 </div>
 
+                {recommended !== null && (
+                    <motion.button
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        whileTap={{ scale: 0.97 }}
+                        onClick={() => handleSelect(recommended)}
+                        className="w-full flex items-center gap-4 p-4 mb-4 rounded-2xl bg-primary/10 border-2 border-primary/30 text-left"
+                    >
+                        <div className={`flex-shrink-0 size-12 rounded-full flex items-center justify-center ${CATEGORY_COLOR_CLASSES[category.color]}`}>
+                            <span className="material-symbols-outlined text-2xl">{category.icon}</span>
+                        </div>
+                        <div className="flex-1">
+                            <p className="text-xs font-bold uppercase tracking-wide text-primary">{t('delay.recommended', { category: categoryName(category, t) })}</p>
+                            <p className="font-bold text-lg">{formatDuration(locale, recommended)}</p>
+                        </div>
+                        <span className="material-symbols-outlined text-primary">arrow_forward</span>
+                    </motion.button>
+                )}
+
                 <motion.div
                     variants={containerStagger}
                     initial="hidden"
@@ -546,10 +964,10 @@ const DelaySelectionScreen: React.FC<{
                     className="grid grid-cols-2 gap-4 mb-4"
                 >
                     {[
-                        { min: 60, label: '1 jam', sub: 'Buat napas dulu', icon: 'timer', color: 'bg-blue-50 text-blue-500 dark:bg-blue-900/30' },
-                        { min: 480, label: 'Besok pagi', sub: 'Tidur dulu aja', icon: 'bedtime', color: 'bg-purple-50 text-purple-500 dark:bg-purple-900/30' },
-                        { min: 1440, label: '24 jam', sub: 'Pikir matang', icon: 'calendar_month', color: 'bg-orange-50 text-orange-500 dark:bg-orange-900/30' },
-                        { min: 5, label: '5 menit', sub: 'Coba dulu', icon: 'bolt', color: 'bg-primary/10 text-primary', border: 'border-2 border-primary/20' }
+                        { min: 60, label: t('duration.hours', { count: 1 }), sub: t('delay.hourSub'), icon: 'timer', color: 'bg-blue-50 text-blue-500 dark:bg-blue-900/30' },
+                        { min: 480, label: t('delay.tomorrow'), sub: t('delay.tomorrowSub'), icon: 'bedtime', color: 'bg-purple-50 text-purple-500 dark:bg-purple-900/30' },
+                        { min: 1440, label: t('duration.hours', { count: 24 }), sub: t('delay.daySub'), icon: 'calendar_month', color: 'bg-orange-50 text-orange-500 dark:bg-orange-900/30' },
+                        { min: 5, label: t('duration.minutes', { count: 5 }), sub: t('delay.quickSub'), icon: 'bolt', color: 'bg-primary/10 text-primary', border: 'border-2 border-primary/20' }
                     ].map((item, i) => (
                         <motion.button
                             key={i}
@@ -557,7 +975,8 @@ const DelaySelectionScreen: React.FC<{
                             whileHover={{ scale: 1.05 }}
                             whileTap={{ scale: 0.95 }}
                             onClick={() => handleSelect(item.min)}
-                            className={`aspect-square flex flex-col items-center justify-center gap-2 rounded-2xl bg-surface-light dark:bg-surface-dark p-4 shadow-sm transition-colors ${item.border || ''}`}
+                            disabled={item.min < minMinutes || item.min > durations.maxMinutes}
+                            className={`aspect-square flex flex-col items-center justify-center gap-2 rounded-2xl bg-surface-light dark:bg-surface-dark p-4 shadow-sm transition-colors disabled:opacity-40 disabled:pointer-events-none ${item.border || ''}`}
                         >
                             <div className={`flex size-12 items-center justify-center rounded-full ${item.color}`}>
                                 <span className="material-symbols-outlined text-2xl">{item.icon}</span>
@@ -570,43 +989,270 @@ const DelaySelectionScreen: React.FC<{
                     ))}
                 </motion.div>
 
+                {category.minDurationMinutes ? (
+                    <p className="flex items-center gap-2 text-xs text-gray-400 mb-4">
+                        <span className="material-symbols-outlined text-[16px]">lock_clock</span>
+                        {t('delay.minimum', { category: categoryName(category, t), duration: formatDuration(locale, minMinutes) })}
+                    </p>
+                ) : null}
+
                 <motion.div variants={itemVariant}>
                     <Button variant="secondary" onClick={() => setShowCustom(true)}>
-                        <span className="material-symbols-outlined">tune</span> Atur Waktu Sendiri
+                        <span className="material-symbols-outlined">tune</span> {t('picker.title')}
                     </Button>
                 </motion.div>
+
+                {draft.categoryId === DecisionType.SHOPPING && (
+                    <button onClick={moveToWishlist} className="mt-4 flex items-center gap-3 p-4 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 text-left">
+                        <span className="material-symbols-outlined text-primary">bookmark_add</span>
+                        <div className="flex-1">
+                            <p className="font-bold text-sm">{t('wishlist.park')}</p>
+                            <p className="text-xs text-gray-400">{t('wishlist.parkHint')}</p>
+                        </div>
+                        <span className="material-symbols-outlined text-gray-400">chevron_right</span>
+                    </button>
+                )}
             </motion.div>
         </Layout>
     );
 };
 
+const QuestionInput: React.FC<{
+    answer: ReflectionAnswer;
+    onChange: (answer: ReflectionAnswer) => void;
+}> = ({ answer, onChange }) => {
+    const { t } = useI18n();
+
+    switch (answer.kind) {
+        case 'text':
+            return (
+                <textarea
+                    autoFocus
+                    value={answer.value}
+                    onChange={(e) => onChange({ ...answer, value: e.target.value })}
+                    placeholder={t('reflection.placeholder')}
+                    className="w-full min-h-[140px] p-4 rounded-2xl bg-white dark:bg-surface-dark border-transparent focus:border-primary/50 focus:ring-0 resize-none shadow-sm"
+                />
+            );
+        case 'intensity': {
+            const value = answer.value ?? Math.ceil((INTENSITY_MIN + INTENSITY_MAX) / 2);
+            return (
+                <div className="p-6 rounded-3xl bg-white dark:bg-surface-dark shadow-sm">
+                    <p className={`text-center text-5xl font-extrabold mb-4 ${answer.value === null ? 'text-gray-300 dark:text-gray-600' : 'text-primary'}`}>{value}</p>
+                    <input
+                        type="range"
+                        min={INTENSITY_MIN}
+                        max={INTENSITY_MAX}
+                        value={value}
+                        onChange={(e) => onChange({ ...answer, value: Number(e.target.value) })}
+                        className="w-full accent-primary"
+                    />
+                    <div className="flex justify-between text-xs text-gray-400 mt-2">
+                        <span>{t('questionnaire.intensityLow')}</span>
+                        <span>{t('questionnaire.intensityHigh')}</span>
+                    </div>
+                </div>
+            );
+        }
+        case 'emotion':
+            return (
+                <div className="grid grid-cols-2 gap-3">
+                    {HALT_EMOTIONS.map(emotion => {
+                        const selected = answer.value.includes(emotion);
+                        return (
+                            <motion.button
+                                key={emotion}
+                                whileTap={{ scale: 0.95 }}
+                                onClick={() => onChange({ ...answer, value: selected ? answer.value.filter(e => e !== emotion) : [...answer.value, emotion] })}
+                                className={`flex flex-col items-center gap-2 p-4 rounded-2xl border-2 transition-colors ${selected ? 'border-primary bg-primary/10' : 'border-transparent bg-white dark:bg-surface-dark shadow-sm'}`}
+                            >
+                                <span className={`material-symbols-outlined text-3xl ${selected ? 'text-primary' : 'text-gray-400'}`}>{HALT_META[emotion].icon}</span>
+                                <span className="font-bold text-sm">{t(HALT_META[emotion].labelKey)}</span>
+                            </motion.button>
+                        );
+                    })}
+                </div>
+            );
+        case 'yesNo':
+            return (
+                <div className="grid grid-cols-2 gap-3">
+                    {[true, false].map(option => (
+                        <motion.button
+                            key={String(option)}
+                            whileTap={{ scale: 0.95 }}
+                            onClick={() => onChange({ ...answer, value: option })}
+                            className={`h-16 rounded-2xl border-2 font-bold text-lg transition-colors ${answer.value === option ? 'border-primary bg-primary/10 text-primary-dark dark:text-primary' : 'border-transparent bg-white dark:bg-surface-dark shadow-sm'}`}
+                        >
+                            {option ? t('common.yes') : t('common.no')}
+                        </motion.button>
+                    ))}
+                </div>
+            );
+    }
+};
+
+// One question per step; every answer is optional so nobody gets stuck before the timer
+const Questionnaire: React.FC<{
+    questions: ReflectionQuestion[];
+    finishLabel: React.ReactNode;
+    onFinish: (answers: ReflectionAnswer[]) => void;
+    // Answers given earlier, e.g. from a resumed draft; matched by question id
+    initialAnswers?: ReflectionAnswer[];
+    onChange?: (answers: ReflectionAnswer[]) => void;
+}> = ({ questions, finishLabel, onFinish, initialAnswers, onChange }) => {
+    const { t } = useI18n();
+    const [step, setStep] = useState(0);
+    const [answers, setAnswers] = useState<ReflectionAnswer[]>(() => questions.map(question =>
+        initialAnswers?.find(a => a.questionId === question.id && a.kind === question.kind) ?? emptyAnswer(question)
+    ));
+    const current = answers[step];
+    const isLast = step >= questions.length - 1;
+
+    const updateAnswer = (answer: ReflectionAnswer) => {
+        const next = answers.map((a, idx) => (idx === step ? answer : a));
+        setAnswers(next);
+        onChange?.(next);
+    };
+
+    if (!current) {
+        return <Button onClick={() => onFinish([])}>{finishLabel}</Button>;
+    }
+
+    return (
+        <div className="flex-1 flex flex-col">
+            <div className="flex items-center gap-2 mb-4">
+                {questions.map((question, idx) => (
+                    <div key={question.id} className={`h-1.5 flex-1 rounded-full transition-colors ${idx <= step ? 'bg-primary' : 'bg-gray-200 dark:bg-gray-700'}`} />
+                ))}
+            </div>
+            <p className="text-xs font-semibold tracking-widest text-gray-400 uppercase mb-1">
+                {t('questionnaire.progress', { current: step + 1, total: questions.length })}
+            </p>
+
+            <AnimatePresence mode="wait">
+                <motion.div
+                    key={step}
+                    initial={{ opacity: 0, x: 30 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    exit={{ opacity: 0, x: -30 }}
+                    transition={{ duration: 0.2 }}
+                    className="mb-6"
+                >
+                    <div className="flex items-start gap-3 mb-4">
+                        <span className="material-symbols-outlined text-yellow-500 mt-1">psychology_alt</span>
+                        <h2 className="font-bold text-lg">{current.question}</h2>
+                    </div>
+                    <QuestionInput
+                        answer={current}
+                        onChange={updateAnswer}
+                    />
+                </motion.div>
+            </AnimatePresence>
+
+            <div className="mt-auto flex gap-3">
+                {step > 0 && (
+                    <Button variant="secondary" className="!w-auto px-5" onClick={() => setStep(step - 1)}>
+                        <span className="material-symbols-outlined">arrow_back</span>
+                    </Button>
+                )}
+                <Button onClick={() => (isLast ? onFinish(answers) : setStep(step + 1))}>
+                    {isLast ? finishLabel : <>{t('common.next')} <span className="material-symbols-outlined">arrow_forward</span></>}
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+// Urge strength over the wait, on the same 1..10 scale as the intensity question
+const UrgeChart: React.FC<{ points: UrgePoint[] }> = ({ points }) => {
+    const { locale, t } = useI18n();
+    const first = points[0];
+    const last = points[points.length - 1];
+    const span = Math.max(1, last.at - first.at);
+    const x = (at: number) => 8 + ((at - first.at) / span) * 284;
+    const y = (strength: number) => 8 + (1 - (strength - INTENSITY_MIN) / (INTENSITY_MAX - INTENSITY_MIN)) * 84;
+    const multiDay = new Date(first.at).toDateString() !== new Date(last.at).toDateString();
+    const label = (at: number) => (multiDay ? formatDate(locale, at, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : formatTime(locale, at));
+
+    return (
+        <div>
+            <svg viewBox="0 0 300 100" className="w-full h-28 text-primary" role="img" aria-label={t('checkIn.chartLabel', { from: first.strength, to: last.strength })}>
+                {[INTENSITY_MIN, INTENSITY_MAX].map(level => (
+                    <line key={level} x1="8" x2="292" y1={y(level)} y2={y(level)} stroke="currentColor" strokeDasharray="3 4" className="text-gray-200 dark:text-gray-700" />
+                ))}
+                <polyline points={points.map(p => `${x(p.at)},${y(p.strength)}`).join(' ')} fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinejoin="round" strokeLinecap="round" />
+                {points.map((p, idx) => (
+                    <circle key={idx} cx={x(p.at)} cy={y(p.strength)} r="4" fill="currentColor" />
+                ))}
+            </svg>
+            <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+                <span>{label(first.at)} · {first.strength}/{INTENSITY_MAX}</span>
+                <span>{label(last.at)} · {last.strength}/{INTENSITY_MAX}</span>
+            </div>
+        </div>
+    );
+};
+
+const AnswerComparisonList: React.FC<{ comparisons: AnswerComparison[] }> = ({ comparisons }) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="space-y-3">
+            {comparisons.map(({ before, after, change }) => (
+                <div key={after.questionId} className="text-left">
+                    <p className="text-xs text-gray-400 mb-1">{after.question}</p>
+                    <div className="flex items-center gap-2 font-bold">
+                        <span className="text-gray-400 line-through decoration-1">{formatAnswer(before, t)}</span>
+                        <span className="material-symbols-outlined text-sm text-gray-400">arrow_forward</span>
+                        <span>{formatAnswer(after, t)}</span>
+                        {change !== null && change !== 0 && (
+                            <span className={`ml-auto px-2 py-0.5 rounded-full text-xs ${change < 0 ? 'bg-green-50 text-green-600 dark:bg-green-900/30 dark:text-green-400' : 'bg-rose-50 text-rose-600 dark:bg-rose-900/30 dark:text-rose-400'}`}>
+                                {change > 0 ? `+${change}` : change}
+                            </span>
+                        )}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
 const ReflectionScreen: React.FC<{
     draft: Decision,
     setDraft: React.Dispatch<React.SetStateAction<Decision>>,
-    startWaiting: (finalDecision: Decision) => void
+    startWaiting: (finalDecision: Decision) => Promise<void>
 }> = ({ draft, setDraft, startWaiting }) => {
     const navigate = useNavigate();
-    const [reflection, setReflection] = useState('');
+    const { t } = useI18n();
+    const categories = useCategories();
+    const questions = useMemo(
+        () => (categories ? categoryQuestions(resolveCategory(categories, draft.categoryId), t) : null),
+        [categories, draft.categoryId, t]
+    );
 
-    const handleStart = async () => {
-        // Request notification permission if not granted and supported
-        if (typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'default') {
-            try {
-                await Notification.requestPermission();
-            } catch (e) {
-                console.error("Failed to request permission", e);
-            }
-        }
+    // A calendar reminder for people who close the app and can't count on notifications
+    const [addToCalendar, setAddToCalendar] = useState(false);
 
+    const handleStart = async (reflectionAnswers: ReflectionAnswer[]) => {
+        // Asks only when reminders are on in settings and the browser hasn't been asked yet
+        await Notifications.requestPermission();
+
+        const startTime = Date.now();
+        const endTime = startTime + draft.durationMinutes * 60 * 1000;
         const finalDecision = {
             ...draft,
-            reflectionText: reflection,
+            reflectionAnswers,
             status: DecisionStatus.WAITING,
-            startTime: Date.now(),
-            endTime: Date.now() + draft.durationMinutes * 60 * 1000
+            startTime,
+            endTime,
+            checkInSchedule: planCheckIns(startTime, endTime, getPreferences().checkIns),
         };
-        startWaiting(finalDecision);
-        navigate('/waiting', { replace: true });
+        if (addToCalendar && categories) {
+            const ics = Calendar.decisionsToCalendar([finalDecision], id => categoryName(resolveCategory(categories, id), t), appUrl());
+            Backup.downloadFile(`secondthought-${finalDecision.id}.ics`, ics, 'text/calendar');
+        }
+        await startWaiting(finalDecision);
+        navigate(`/waiting/${finalDecision.id}`, { replace: true });
     };
 
     return (
@@ -616,7 +1262,7 @@ const ReflectionScreen: React.FC<{
                 initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
                 className="px-6 pb-6 flex-1 flex flex-col overflow-y-auto"
             >
-                <h1 className="text-3xl font-bold mb-6">Sebelum lanjut...</h1>
+                <h1 className="text-3xl font-bold mb-6">{t('reflection.title')}</h1>
 
                 <motion.div
                     initial={{ opacity: 0, scale: 0.95 }}
@@ -625,136 +1271,362 @@ const ReflectionScreen: React.FC<{
                     className="bg-white dark:bg-surface-dark rounded-3xl p-4 shadow-sm mb-6 border border-gray-100 dark:border-gray-800"
                 >
                     <div className="w-full aspect-video rounded-2xl bg-gradient-to-br from-green-200 to-yellow-100 dark:from-green-900 dark:to-yellow-900 mb-4 overflow-hidden relative">
-                        <img src="https://picsum.photos/600/350" className="w-full h-full object-cover mix-blend-overlay opacity-60" alt="Calm" />
+                        <img src="https://picsum.photos/600/350" className="w-full h-full object-cover mix-blend-overlay opacity-60" alt={t('reflection.imageAlt')} />
                         <div className="absolute top-3 left-3 bg-white/80 dark:bg-black/50 backdrop-blur px-2 py-1 rounded-full flex items-center gap-1">
                             <span className="material-symbols-outlined text-xs text-primary">spa</span>
-                            <span className="text-[10px] font-bold uppercase">Refleksi</span>
+                            <span className="text-[10px] font-bold uppercase">{t('reflection.badge')}</span>
                         </div>
                     </div>
-                    <p className="text-lg font-medium leading-snug px-2">"Banyak keputusan impulsif terjadi saat kita capek atau emosi."</p>
+                    <p className="text-lg font-medium leading-snug px-2">{t('reflection.quote')}</p>
                 </motion.div>
 
-                <div className="flex items-start gap-3 mb-2">
-                    <span className="material-symbols-outlined text-yellow-500 mt-1">psychology_alt</span>
-                    <h2 className="font-bold text-lg">Kalau ditunda sebentar, apa yang paling kamu takutkan?</h2>
+                <div className="mb-6">
+                    <SettingToggle
+                        icon="event"
+                        title={t('calendar.addOnStart')}
+                        hint={t('calendar.addOnStartHint')}
+                        checked={addToCalendar}
+                        onToggle={() => setAddToCalendar(!addToCalendar)}
+                    />
                 </div>
 
-                <textarea
-                    value={reflection}
-                    onChange={(e) => setReflection(e.target.value)}
-                    placeholder="Ceritakan ketakutanmu di sini..."
-                    className="w-full min-h-[120px] p-4 rounded-2xl bg-white dark:bg-surface-dark border-transparent focus:border-primary/50 focus:ring-0 resize-none shadow-sm mb-6"
-                />
-
-                <div className="mt-auto">
-                    <Button onClick={handleStart}>
-                        Mulai Timer <span className="material-symbols-outlined">timer</span>
-                    </Button>
-                </div>
+                {questions && (
+                    <Questionnaire
+                        questions={questions}
+                        onFinish={handleStart}
+                        initialAnswers={draft.reflectionAnswers}
+                        onChange={(reflectionAnswers) => setDraft(prev => ({ ...prev, reflectionAnswers }))}
+                        finishLabel={<>{t('reflection.start')} <span className="material-symbols-outlined">timer</span></>}
+                    />
+                )}
             </motion.div>
         </Layout>
     );
 };
 
-const WaitingScreen: React.FC<{
-    decision: Decision | null,
-    onComplete: () => void,
-    onEmergency: () => void
-}> = ({ decision, onComplete, onEmergency }) => {
-    const [timeLeft, setTimeLeft] = useState<{ h: number, m: number, s: number }>({ h: 0, m: 0, s: 0 });
-    const [progress, setProgress] = useState(0);
-    const audioRef = useRef<HTMLAudioElement>(new Audio(ALARM_SOUND));
-    const [notified, setNotified] = useState(false);
+// --- Breathing ---
+
+// Elapsed session time as m:ss
+const formatClock = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const PHASE_LABELS: Record<BreathPhaseKind, MessageKey> = {
+    inhale: 'breathing.inhale',
+    holdIn: 'breathing.hold',
+    exhale: 'breathing.exhale',
+    holdOut: 'breathing.hold',
+};
+
+// Steps through the pattern while active and reports every completed cycle
+const useBreathingCycle = (
+    pattern: BreathPhase[],
+    active: boolean,
+    onCycle: () => void,
+    cues: { sound: boolean; haptics: boolean } = { sound: false, haptics: false }
+): BreathPhase => {
+    const [phaseIndex, setPhaseIndex] = useState(0);
+    const onCycleRef = useRef(onCycle);
+    onCycleRef.current = onCycle;
+    const { sound, haptics } = cues;
 
     useEffect(() => {
-        const audio = audioRef.current;
+        setPhaseIndex(0);
+    }, [pattern, active]);
 
-        // Stop audio when component unmounts
-        return () => {
-            audio.pause();
-            audio.currentTime = 0;
-        };
-    }, []);
+    const phase = pattern[phaseIndex] ?? pattern[0];
 
     useEffect(() => {
-        if (!decision) return;
+        if (!active) return;
+        if (sound) playCue(phase.kind);
+        if (haptics) vibrateCue(phase.kind);
+
+        const timer = setTimeout(() => {
+            const next = (phaseIndex + 1) % pattern.length;
+            if (next === 0) onCycleRef.current();
+            setPhaseIndex(next);
+        }, phase.seconds * 1000);
+        return () => clearTimeout(timer);
+    }, [active, pattern, phaseIndex, phase, sound, haptics]);
+
+    return phase;
+};
 
-        const interval = setInterval(() => {
-            const now = Date.now();
-            const diff = decision.endTime - now;
-            const totalDuration = decision.endTime - decision.startTime;
-
-            if (diff <= 0) {
-                clearInterval(interval);
-                if (!notified) {
-                    setNotified(true);
-                    // Browser Notification
-                    if (typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'granted') {
-                        try {
-                            new Notification("Waktu Habis! ⏰", {
-                                body: "Saatnya kembali ke SecondThought untuk keputusanmu.",
-                                icon: "https://picsum.photos/192/192" // Placeholder icon
-                            });
-                        } catch (e) {
-                            console.error("Failed to create notification", e);
-                        }
-                    }
-                    // Audio Alarm Loop
-                    audioRef.current.loop = true;
-                    audioRef.current.play().catch(e => console.log("Autoplay blocked usually, user interaction required earlier", e));
-                }
-                onComplete();
-            } else {
-                const hours = Math.floor(diff / (1000 * 60 * 60));
-                const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-                const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-                setTimeLeft({ h: hours, m: minutes, s: seconds });
-                setProgress(100 - (diff / totalDuration) * 100);
-            }
-        }, 1000);
+const BreathingCircle: React.FC<{ phase: BreathPhase; className?: string }> = ({ phase, className = "" }) => {
+    const { t } = useI18n();
+    return (
+        <div className={`flex flex-col items-center justify-center ${className}`}>
+            <div className="size-32 flex items-center justify-center">
+                <motion.div
+                    className="size-32 rounded-full bg-primary/25 border-2 border-primary/40"
+                    initial={{ scale: PHASE_SCALE.holdOut }}
+                    animate={{ scale: PHASE_SCALE[phase.kind] }}
+                    transition={{ duration: phase.seconds, ease: 'easeInOut' }}
+                />
+            </div>
+            <p className="font-bold text-lg mt-2">{t(PHASE_LABELS[phase.kind])}</p>
+            <p className="text-xs text-gray-400">{t('duration.seconds', { count: phase.seconds })}</p>
+        </div>
+    );
+};
 
-        return () => clearInterval(interval);
-    }, [decision, onComplete, notified]);
+// --- Emergency Skip ---
+
+const FRICTION_LABELS: Record<EmergencyFriction, MessageKey> = {
+    justification: 'friction.justification',
+    hold: 'friction.hold',
+    breathing: 'friction.breathing',
+};
 
-    if (!decision) return null;
+const HoldToConfirmButton: React.FC<{ onConfirm: () => void; children: React.ReactNode }> = ({ onConfirm, children }) => {
+    const [holding, setHolding] = useState(false);
 
-    return (
-        <Layout className="bg-soft-green dark:bg-[#0f1f12]">
-            <NotificationRequestBanner />
+    useEffect(() => {
+        if (!holding) return;
+        const timer = setTimeout(onConfirm, HOLD_TO_CONFIRM_MS);
+        return () => clearTimeout(timer);
+    }, [holding, onConfirm]);
+
+    // Holding Space or Enter works like holding a finger down
+    const isHoldKey = (e: React.KeyboardEvent) => e.key === ' ' || e.key === 'Enter';
 
+    return (
+        <button
+            onPointerDown={() => setHolding(true)}
+            onPointerUp={() => setHolding(false)}
+            onPointerLeave={() => setHolding(false)}
+            onKeyDown={(e) => {
+                if (!isHoldKey(e)) return;
+                e.preventDefault();
+                if (!e.repeat) setHolding(true);
+            }}
+            onKeyUp={(e) => {
+                if (isHoldKey(e)) setHolding(false);
+            }}
+            onBlur={() => setHolding(false)}
+            onContextMenu={(e) => e.preventDefault()}
+            className="relative w-full h-14 rounded-full overflow-hidden bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400 font-bold select-none touch-none"
+        >
             <motion.div
-                initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
-                className="flex-1 flex flex-col items-center justify-center px-6 relative"
-            >
-                {/* Background Animation */}
-                <div className="absolute inset-0 overflow-hidden pointer-events-none">
-                    <motion.div
-                        animate={{ scale: [1, 1.5, 1], opacity: [0.1, 0.2, 0.1] }}
-                        transition={{ duration: 4, repeat: Infinity, ease: "easeInOut" }}
-                        className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-64 h-64 bg-primary/20 rounded-full blur-3xl"
-                    />
-                </div>
+                className="absolute inset-y-0 left-0 bg-rose-200 dark:bg-rose-800/60"
+                animate={{ width: holding ? '100%' : '0%' }}
+                transition={{ duration: holding ? HOLD_TO_CONFIRM_MS / 1000 : 0.2, ease: 'linear' }}
+            />
+            <span className="relative flex items-center justify-center gap-2">
+                <span className="material-symbols-outlined">touch_app</span> {children}
+            </span>
+        </button>
+    );
+};
 
-                <div className="relative mb-10">
-                    <div className="w-64 h-64 rounded-full bg-white dark:bg-surface-dark shadow-2xl flex items-center justify-center relative overflow-hidden">
-                        <svg className="w-full h-full rotate-[-90deg] absolute" viewBox="0 0 100 100">
-                            <circle cx="50" cy="50" r="45" fill="none" stroke="currentColor" className="text-gray-100 dark:text-gray-800" strokeWidth="4" />
-                            <motion.circle
-                                cx="50" cy="50" r="45" fill="none" stroke="currentColor"
-                                className="text-primary"
-                                strokeWidth="4"
-                                strokeDasharray="283"
-                                strokeDashoffset="283"
+const BreathingExercise: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+    const { t } = useI18n();
+    const { breathing } = usePreferences();
+    const [cycles, setCycles] = useState(0);
+    const done = cycles >= BREATHING_CYCLES;
+    const phase = useBreathingCycle(BREATHING_PATTERNS[breathing.pattern], !done, () => setCycles(c => c + 1), breathing);
+
+    useEffect(() => {
+        if (done) onDone();
+    }, [done, onDone]);
+
+    return (
+        <div className="py-4">
+            <BreathingCircle phase={phase} />
+            <p className="text-xs text-gray-400 text-center mt-1">{t('emergency.breathsLeft', { count: Math.max(1, BREATHING_CYCLES - cycles) })}</p>
+        </div>
+    );
+};
+
+const EmergencySkipSheet: React.FC<{
+    decision: Decision;
+    friction: EmergencyFriction;
+    onConfirm: (reason?: string) => void;
+    onCancel: () => void;
+}> = ({ decision, friction, onConfirm, onCancel }) => {
+    const { locale, t } = useI18n();
+    const [reason, setReason] = useState('');
+    const [breathed, setBreathed] = useState(false);
+    const remaining = useMemo(() => forfeitedMinutes(decision, Date.now()), [decision]);
+    const reasonRequired = friction === 'justification';
+    const reasonValid = !reasonRequired || reason.trim().length >= MIN_JUSTIFICATION_LENGTH;
+    const confirm = useCallback(() => onConfirm(reason), [onConfirm, reason]);
+    const finishBreathing = useCallback(() => setBreathed(true), []);
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/40 backdrop-blur-sm"
+        >
+            <div className="bg-white dark:bg-surface-dark w-full max-w-sm rounded-3xl p-6 shadow-2xl">
+                <h3 className="text-xl font-bold mb-2">{t('emergency.title')}</h3>
+                <p className="text-sm text-gray-500 mb-6">{t('emergency.forfeit', { duration: formatDuration(locale, remaining) })}</p>
+
+                {friction === 'breathing' && !breathed ? (
+                    <>
+                        <p className="text-sm text-center text-gray-500">{t('emergency.breatheIntro')}</p>
+                        <BreathingExercise onDone={finishBreathing} />
+                    </>
+                ) : (
+                    <>
+                        <label className="block text-sm font-medium mb-2">{t(reasonRequired ? 'emergency.reasonLabel' : 'emergency.reasonOptional')}</label>
+                        <textarea
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            placeholder={t('emergency.reasonPlaceholder')}
+                            className="w-full h-28 p-4 rounded-2xl bg-gray-50 dark:bg-black/20 border-none focus:ring-2 focus:ring-primary resize-none mb-2"
+                        />
+                        {reasonRequired && (
+                            <p className={`text-xs mb-4 ${reasonValid ? 'text-primary' : 'text-gray-400'}`}>
+                                {t('emergency.reasonHint', { count: MIN_JUSTIFICATION_LENGTH })}
+                            </p>
+                        )}
+                        <div className="mt-4">
+                            {friction === 'hold' ? (
+                                <>
+                                    <HoldToConfirmButton onConfirm={confirm}>{t('emergency.hold')}</HoldToConfirmButton>
+                                    <p className="text-xs text-gray-400 text-center mt-2">{t('emergency.holdHint', { count: HOLD_TO_CONFIRM_MS / 1000 })}</p>
+                                </>
+                            ) : (
+                                <Button variant="danger" onClick={confirm} disabled={!reasonValid}>
+                                    {t('emergency.confirm')}
+                                </Button>
+                            )}
+                        </div>
+                    </>
+                )}
+
+                <Button onClick={onCancel} className="mt-3">{t('emergency.keepWaiting')}</Button>
+            </div>
+        </motion.div>
+    );
+};
+
+const BREATHING_PATTERN_LABELS: Record<BreathingPatternId, MessageKey> = {
+    box: 'breathing.pattern.box',
+    '478': 'breathing.pattern.478',
+    coherent: 'breathing.pattern.coherent',
+};
+
+// A one-tap answer to a scheduled check-in
+const CheckInPrompt: React.FC<{ onAnswer: (strength: number) => void }> = ({ onAnswer }) => {
+    const { t } = useI18n();
+    const levels = Array.from({ length: INTENSITY_MAX - INTENSITY_MIN + 1 }, (_, idx) => INTENSITY_MIN + idx);
+
+    return (
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="w-full mb-6 p-4 rounded-3xl bg-white dark:bg-surface-dark shadow-sm">
+            <div className="flex items-center gap-2 mb-1 text-primary">
+                <span className="material-symbols-outlined text-sm">monitor_heart</span>
+                <span className="text-xs font-bold uppercase tracking-wide">{t('checkIn.title')}</span>
+            </div>
+            <p className="font-bold mb-3">{t('checkIn.question')}</p>
+            <div className="grid grid-cols-10 gap-1">
+                {levels.map(level => (
+                    <motion.button
+                        key={level}
+                        whileTap={{ scale: 0.9 }}
+                        onClick={() => onAnswer(level)}
+                        className="aspect-square rounded-xl bg-gray-50 dark:bg-black/20 text-sm font-bold hover:bg-primary hover:text-white"
+                    >
+                        {level}
+                    </motion.button>
+                ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-2">{t('checkIn.scale')}</p>
+        </motion.div>
+    );
+};
+
+const WaitingScreen: React.FC<{
+    decision: Decision,
+    onComplete: () => void,
+    onEmergency: (reason?: string) => void,
+    onBreathingCycle: (seconds: number) => void,
+    onCheckIn: (scheduledAt: number, strength: number) => void
+}> = ({ decision, onComplete, onEmergency, onBreathingCycle, onCheckIn }) => {
+    const { locale, t } = useI18n();
+    const { breathing: breathingSettings } = usePreferences();
+    const [session, setSession] = useState<{ startedAt: number; cycles: number } | null>(null);
+    const pattern = BREATHING_PATTERNS[breathingSettings.pattern];
+    const breathPhase = useBreathingCycle(pattern, session !== null, () => {
+        setSession(s => s && { ...s, cycles: s.cycles + 1 });
+        onBreathingCycle(cycleSeconds(pattern));
+    }, breathingSettings);
+
+    const updateBreathingSettings = (changes: Partial<BreathingSettings>) =>
+        updatePreferences({ breathing: { ...breathingSettings, ...changes } });
+    // Read when the sheet opens so a change in settings applies to the next skip
+    const [skipFriction, setSkipFriction] = useState<EmergencyFriction | null>(null);
+    const [countdown, setCountdown] = useState(() => getCountdownState(decision.startTime, decision.endTime, Date.now()));
+    const { timeLeft, progress } = countdown;
+    // Re-evaluated on every countdown tick, so a check-in shows up while the screen is open
+    const pendingCheckIn = dueCheckIn(decision, Date.now());
+
+    useEffect(() => {
+        const engine = createCountdown({
+            key: `${decision.id}:${decision.endTime}`,
+            startTime: decision.startTime,
+            endTime: decision.endTime,
+            onTick: setCountdown,
+            onExpire: () => {
+                // A deliberate skip ends the wait too; the user is already here and chose to leave early
+                if (endedBySkip(decision)) return;
+                // Browser Notification
+                Notifications.showExpiredNotification(decision);
+                // Keeps ringing on the result screen until stopped or the max ring time passes
+                Alarm.startAlarm();
+            },
+        });
+        return engine.stop;
+    }, [decision.id, decision.startTime, decision.endTime, decision.emergencySkippedAt]);
+
+    useEffect(() => {
+        if (countdown.expired) onComplete();
+    }, [countdown.expired, onComplete]);
+
+    return (
+        <Layout className="bg-soft-green dark:bg-[#0f1f12]">
+            <NotificationRequestBanner />
+
+            <motion.div
+                initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                className="flex-1 flex flex-col items-center justify-center px-6 relative"
+            >
+                {/* Background Animation */}
+                <div className="absolute inset-0 overflow-hidden pointer-events-none">
+                    <motion.div
+                        animate={{ scale: [1, 1.5, 1], opacity: [0.1, 0.2, 0.1] }}
+                        transition={{ duration: 4, repeat: Infinity, ease: "easeInOut" }}
+                        className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-64 h-64 bg-primary/20 rounded-full blur-3xl"
+                    />
+                </div>
+
+                <div className="relative mb-10">
+                    <div className="w-64 h-64 rounded-full bg-white dark:bg-surface-dark shadow-2xl flex items-center justify-center relative overflow-hidden">
+                        <svg className="w-full h-full rotate-[-90deg] absolute" viewBox="0 0 100 100">
+                            <circle cx="50" cy="50" r="45" fill="none" stroke="currentColor" className="text-gray-100 dark:text-gray-800" strokeWidth="4" />
+                            <motion.circle
+                                cx="50" cy="50" r="45" fill="none" stroke="currentColor"
+                                className="text-primary"
+                                strokeWidth="4"
+                                strokeDasharray="283"
+                                strokeDashoffset="283"
                                 animate={{ strokeDashoffset: 283 - (283 * progress) / 100 }}
                                 transition={{ duration: 1, ease: "linear" }}
                                 strokeLinecap="round"
                             />
                         </svg>
                         {/* Removed animate prop here to stop bouncing */}
-                        <div className="absolute inset-0 flex flex-col items-center justify-center z-10 text-center">
-                            <span className="material-symbols-outlined text-4xl text-primary mb-2">spa</span>
-                            <p className="text-xs uppercase tracking-widest text-gray-400">Sisa Waktu</p>
-                        </div>
+                        {session ? (
+                            <BreathingCircle phase={breathPhase} className="absolute inset-0 z-10" />
+                        ) : (
+                            <div className="absolute inset-0 flex flex-col items-center justify-center z-10 text-center">
+                                <span className="material-symbols-outlined text-4xl text-primary mb-2">spa</span>
+                                <p className="text-xs uppercase tracking-widest text-gray-400">{t('waiting.remaining')}</p>
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -762,25 +1634,79 @@ const WaitingScreen: React.FC<{
                     initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }}
                     className="text-3xl font-bold text-center mb-2"
                 >
-                    Tunggu sebentar ya.
+                    {t('waiting.title')}
                 </motion.h1>
-                <p className="text-center text-gray-500 mb-8 max-w-xs">Keputusan terbaik lahir dari pikiran yang tenang.</p>
+                <p className="text-center text-gray-500 mb-2 max-w-xs">{t('waiting.subtitle')}</p>
+                <p className="text-center text-xs text-gray-400 mb-8">{t('waiting.endsAt', { time: formatTime(locale, decision.endTime) })}</p>
 
                 <div className="flex gap-4 mb-12">
                     <div className="text-center">
                         <div className="text-4xl font-bold font-mono">{String(timeLeft.h).padStart(2, '0')}</div>
-                        <div className="text-xs text-gray-400 uppercase">Jam</div>
+                        <div className="text-xs text-gray-400 uppercase">{t('waiting.hours')}</div>
                     </div>
                     <div className="text-4xl font-bold pb-4 animate-pulse">:</div>
                     <div className="text-center">
                         <div className="text-4xl font-bold font-mono">{String(timeLeft.m).padStart(2, '0')}</div>
-                        <div className="text-xs text-gray-400 uppercase">Menit</div>
+                        <div className="text-xs text-gray-400 uppercase">{t('waiting.minutes')}</div>
                     </div>
                     <div className="text-4xl font-bold pb-4 animate-pulse">:</div>
                     <div className="text-center">
                         <div className="text-4xl font-bold font-mono text-primary">{String(timeLeft.s).padStart(2, '0')}</div>
-                        <div className="text-xs text-gray-400 uppercase">Detik</div>
+                        <div className="text-xs text-gray-400 uppercase">{t('waiting.seconds')}</div>
+                    </div>
+                </div>
+
+                {pendingCheckIn !== null && <CheckInPrompt onAnswer={(strength) => onCheckIn(pendingCheckIn, strength)} />}
+
+                {decision.message && (
+                    // Only the recipient: the body isn't rendered at all until the wait is over
+                    <div className="w-full mb-6 flex items-center gap-3 p-4 rounded-3xl bg-white/60 dark:bg-black/20 select-none">
+                        <span className="material-symbols-outlined text-primary">lock</span>
+                        <div className="flex-1 min-w-0">
+                            <p className="font-bold text-sm truncate">
+                                {decision.message.recipient ? t('vault.lockedFor', { recipient: decision.message.recipient }) : t('vault.locked')}
+                            </p>
+                            <p className="text-xs text-gray-400">{t('vault.lockedHint')}</p>
+                        </div>
+                    </div>
+                )}
+
+                <div className="w-full mb-6 p-4 rounded-3xl bg-white/60 dark:bg-black/20">
+                    <div className="flex items-center gap-2 mb-3">
+                        <div className="flex-1 flex gap-2 overflow-x-auto">
+                            {BREATHING_PATTERN_IDS.map(id => (
+                                <FilterChip key={id} active={breathingSettings.pattern === id} onClick={() => updateBreathingSettings({ pattern: id })}>
+                                    {t(BREATHING_PATTERN_LABELS[id])}
+                                </FilterChip>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => updateBreathingSettings({ sound: !breathingSettings.sound })}
+                            aria-label={t('breathing.sound')}
+                            className={`size-9 flex-shrink-0 rounded-full flex items-center justify-center ${breathingSettings.sound ? 'bg-primary/10 text-primary' : 'text-gray-400'}`}
+                        >
+                            <span className="material-symbols-outlined text-xl">{breathingSettings.sound ? 'volume_up' : 'volume_off'}</span>
+                        </button>
+                        <button
+                            onClick={() => updateBreathingSettings({ haptics: !breathingSettings.haptics })}
+                            aria-label={t('breathing.haptics')}
+                            className={`size-9 flex-shrink-0 rounded-full flex items-center justify-center ${breathingSettings.haptics ? 'bg-primary/10 text-primary' : 'text-gray-400'}`}
+                        >
+                            <span className="material-symbols-outlined text-xl">{breathingSettings.haptics ? 'vibration' : 'mobile_off'}</span>
+                        </button>
                     </div>
+                    <Button variant={session ? 'ghost' : 'secondary'} onClick={() => setSession(session ? null : { startedAt: Date.now(), cycles: 0 })}>
+                        <span className="material-symbols-outlined">{session ? 'stop_circle' : 'air'}</span>
+                        {t(session ? 'breathing.stop' : 'breathing.start')}
+                    </Button>
+                    {session && (
+                        <p className="text-xs text-gray-400 text-center mt-2">
+                            {t('breathing.session', { count: session.cycles, duration: formatClock(Date.now() - session.startedAt) })}
+                        </p>
+                    )}
+                    {!session && decision.breathingCycles ? (
+                        <p className="text-xs text-gray-400 text-center mt-2">{t('breathing.total', { count: decision.breathingCycles })}</p>
+                    ) : null}
                 </div>
 
                 <div className="w-full space-y-4">
@@ -790,43 +1716,155 @@ const WaitingScreen: React.FC<{
                         variant="ghost"
                         className="bg-white/50 dark:bg-black/20 text-slate-600 dark:text-gray-300 pointer-events-none border border-white/20"
                     >
-                        <span className="material-symbols-outlined text-lg">lock</span> Menunggu...
+                        <span className="material-symbols-outlined text-lg">lock</span> {t('waiting.locked')}
                     </Button>
                     <motion.button
                         whileTap={{ scale: 0.95 }}
-                        onClick={onEmergency}
+                        onClick={() => setSkipFriction(getPreferences().emergencyFriction)}
                         className="w-full text-center text-rose-500 text-sm font-medium hover:text-rose-600"
                     >
-                        Saya butuh ini sekarang (Darurat)
+                        {t('waiting.emergency')}
                     </motion.button>
                 </div>
             </motion.div>
+
+            {skipFriction && (
+                <EmergencySkipSheet
+                    decision={decision}
+                    friction={skipFriction}
+                    onConfirm={onEmergency}
+                    onCancel={() => setSkipFriction(null)}
+                />
+            )}
         </Layout>
     );
 };
 
+// The message as written next to an editable copy; marking it sent or discarding it settles the decision
+const MessageVault: React.FC<{
+    decision: Decision;
+    message: MessageDraft;
+    onResolve: (message: MessageDraft) => void;
+}> = ({ decision, message, onResolve }) => {
+    const { t } = useI18n();
+    const [revised, setRevised] = useState(message.revisedBody ?? message.body);
+    const [copied, setCopied] = useState(false);
+    const rewritten = revised.trim() !== message.body.trim();
+
+    // Reachable early through a direct link; the vault stays shut until the wait is over
+    if (!isVaultOpen(decision, Date.now())) {
+        return (
+            <div className="w-full flex items-center gap-3 p-4 mb-6 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 select-none">
+                <span className="material-symbols-outlined text-primary">lock</span>
+                <p className="text-sm text-gray-500">{t('vault.lockedHint')}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-full bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 rounded-2xl p-4 mb-6 shadow-sm">
+            <div className="flex items-center gap-2 mb-3 text-primary">
+                <span className="material-symbols-outlined text-sm">mail</span>
+                <span className="text-xs font-bold uppercase tracking-wide truncate">
+                    {message.recipient ? t('vault.titleFor', { recipient: message.recipient }) : t('vault.title')}
+                </span>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <p className="text-[10px] font-bold uppercase tracking-wide text-gray-400 mb-1">{t('vault.original')}</p>
+                    <p className="h-40 overflow-y-auto p-3 rounded-xl bg-gray-50 dark:bg-black/20 text-sm whitespace-pre-wrap">{message.body}</p>
+                </div>
+                <div>
+                    <p className="text-[10px] font-bold uppercase tracking-wide text-gray-400 mb-1">{t('vault.revised')}</p>
+                    <textarea
+                        value={revised}
+                        onChange={(e) => {
+                            setRevised(e.target.value);
+                            setCopied(false);
+                        }}
+                        className="w-full h-40 p-3 rounded-xl bg-gray-50 dark:bg-black/20 text-sm border-none focus:ring-2 focus:ring-primary resize-none"
+                    />
+                </div>
+            </div>
+            <div className="flex gap-4 mt-3 text-sm">
+                <button onClick={async () => setCopied(await copyMessage(decision, revised))} className="flex items-center gap-1 text-primary font-medium">
+                    <span className="material-symbols-outlined text-lg">{copied ? 'check' : 'content_copy'}</span> {t(copied ? 'vault.copied' : 'vault.copy')}
+                </button>
+                {canShare() && (
+                    <button onClick={() => shareMessage(decision, revised)} className="flex items-center gap-1 text-primary font-medium">
+                        <span className="material-symbols-outlined text-lg">share</span> {t('vault.share')}
+                    </button>
+                )}
+            </div>
+            <div className="grid grid-cols-2 gap-3 mt-4">
+                <Button onClick={() => onResolve(resolveMessage(message, revised, true))} className="!text-base">
+                    <span className="material-symbols-outlined">send</span> {t(rewritten ? 'vault.sentRewritten' : 'vault.sent')}
+                </Button>
+                <Button variant="danger" onClick={() => onResolve(resolveMessage(message, revised, false))} className="!text-base">
+                    <span className="material-symbols-outlined">delete</span> {t('vault.discard')}
+                </Button>
+            </div>
+        </div>
+    );
+};
+
 const ResultScreen: React.FC<{
-    onFinish: (status: DecisionStatus, note?: string) => void;
-    decisionText: string;
-}> = ({ onFinish, decisionText }) => {
-    const [step, setStep] = useState<'selection' | 'feedback' | 'appreciation'>('selection');
+    onFinish: (status: DecisionStatus, note?: string, resultAnswers?: ReflectionAnswer[], message?: MessageDraft) => void;
+    onSnooze: (minutes: number, note?: string, resultAnswers?: ReflectionAnswer[]) => void;
+    decision: Decision;
+}> = ({ onFinish, onSnooze, decision }) => {
+    const { t } = useI18n();
+    // A snooze is a new wait, held to the same limits as the first one
+    const snoozeBounds = useDurationBounds(decision.categoryId);
+    // Ask the "how do you feel" questions again before the user decides
+    const recheck = useMemo(() => recheckQuestions(decision.reflectionAnswers ?? []), [decision.reflectionAnswers]);
+    const [resultAnswers, setResultAnswers] = useState<ReflectionAnswer[] | undefined>(undefined);
+    const comparisons = useMemo(
+        () => compareAnswers(decision.reflectionAnswers ?? [], resultAnswers ?? []),
+        [decision.reflectionAnswers, resultAnswers]
+    );
+    const urge = useMemo(() => urgeSeries(decision, resultAnswers), [decision, resultAnswers]);
+    const [step, setStep] = useState<'checkin' | 'selection' | 'feedback' | 'appreciation'>(recheck.length > 0 ? 'checkin' : 'selection');
     const [selectedAction, setSelectedAction] = useState<DecisionStatus | null>(null);
+    const [message, setMessage] = useState(decision.message);
     const [note, setNote] = useState('');
+    const [showSnoozePicker, setShowSnoozePicker] = useState(false);
+    const [snoozeMinutes, setSnoozeMinutes] = useState<number | null>(null);
+    const alarmRinging = useAlarmRinging();
 
     const handleSelection = (action: DecisionStatus) => {
         setSelectedAction(action);
         setStep('feedback');
     };
 
+    // Sending the message (rewritten or not) means acting on the impulse; discarding it means letting go
+    const handleMessageResolved = (resolved: MessageDraft) => {
+        setMessage(resolved);
+        handleSelection(resolved.outcome === 'discarded' ? DecisionStatus.CANCELLED : DecisionStatus.COMPLETED);
+    };
+
     const submitFeedback = () => {
-        if (selectedAction) {
+        if (selectedAction === DecisionStatus.SNOOZED) {
+            // Snoozing needs a new waiting period before we can wrap up
+            setShowSnoozePicker(true);
+        } else if (selectedAction) {
             setStep('appreciation');
         }
     };
 
+    const handleSnoozeSelect = (minutes: number) => {
+        setSnoozeMinutes(minutes);
+        setShowSnoozePicker(false);
+        setStep('appreciation');
+    };
+
     const handleFinalClose = () => {
-        if (selectedAction) {
-            onFinish(selectedAction, note);
+        // Closing the result is how the user leaves it; otherwise the alarm rings until stopped or timed out
+        Alarm.stopAlarm();
+        if (selectedAction === DecisionStatus.SNOOZED) {
+            if (snoozeMinutes) onSnooze(snoozeMinutes, note, resultAnswers);
+        } else if (selectedAction) {
+            onFinish(selectedAction, note, resultAnswers, message);
         }
     }
 
@@ -834,52 +1872,52 @@ const ResultScreen: React.FC<{
         switch (selectedAction) {
             case DecisionStatus.COMPLETED:
                 return {
-                    title: "Kamu yakin?",
-                    desc: "Oke, kamu sudah melewati masa tunggu. Tulis alasan kenapa kamu tetap mau lanjut, biar jadi pengingat nanti.",
-                    placeholder: "Saya memutuskan lanjut karena...",
-                    btn: "Lanjut & Selesai"
+                    title: t('result.completed.title'),
+                    desc: t('result.completed.desc'),
+                    placeholder: t('result.completed.placeholder'),
+                    btn: t('result.completed.button')
                 };
             case DecisionStatus.CANCELLED:
                 return {
-                    title: "Keputusan Hebat!",
-                    desc: "Menahan diri itu nggak gampang. Apa yang bikin kamu berubah pikiran?",
-                    placeholder: "Saya batal karena sadar bahwa...",
-                    btn: "Simpan & Selesai"
+                    title: t('result.cancelled.title'),
+                    desc: t('result.cancelled.desc'),
+                    placeholder: t('result.cancelled.placeholder'),
+                    btn: t('result.cancelled.button')
                 };
             default: // Snooze
                 return {
-                    title: "Masih ragu?",
-                    desc: "Nggak masalah. Tulis apa yang masih mengganjal di pikiranmu.",
-                    placeholder: "Saya masih bingung soal...",
-                    btn: "Tunda Dulu"
+                    title: t('result.snoozed.title'),
+                    desc: t('result.snoozed.desc'),
+                    placeholder: t('result.snoozed.placeholder'),
+                    btn: t('result.snoozed.button')
                 };
         }
     };
 
     const getAppreciationContent = () => {
-        const reasonSnippet = note.trim() ? `"${note.trim()}"` : 'alasanmu';
+        const reason = note.trim() ? `"${note.trim()}"` : t('result.yourReason');
 
         switch (selectedAction) {
             case DecisionStatus.COMPLETED:
                 return {
                     icon: "check_circle",
                     color: "text-green-500",
-                    title: "Semoga Lancar!",
-                    body: `Kamu memutuskan lanjut karena ${reasonSnippet}. Keputusan yang diambil dengan kepala dingin biasanya jarang salah. Good luck!`,
+                    title: t('result.completed.appreciationTitle'),
+                    body: t('result.completed.appreciationBody', { reason }),
                 };
             case DecisionStatus.CANCELLED:
                 return {
                     icon: "celebration",
                     color: "text-rose-500",
-                    title: "Self-Control Level Up!",
-                    body: `Hebat! Kamu berhasil menahan impuls karena menyadari ${reasonSnippet}. Dompet dan mentalmu pasti berterima kasih.`,
+                    title: t('result.cancelled.appreciationTitle'),
+                    body: t('result.cancelled.appreciationBody', { reason }),
                 };
             default:
                 return {
                     icon: "hourglass_bottom",
                     color: "text-yellow-500",
-                    title: "Pelan-pelan Saja",
-                    body: `Gapapa kalau masih ragu soal ${reasonSnippet}. Lebih baik tunda daripada menyesal. Ambil waktumu lagi ya.`,
+                    title: t('result.snoozed.appreciationTitle'),
+                    body: t('result.snoozed.appreciationBody', { reason }),
                 };
         }
     }
@@ -889,11 +1927,44 @@ const ResultScreen: React.FC<{
 
     return (
         <Layout>
+            <AnimatePresence>
+                {alarmRinging && (
+                    <motion.button
+                        initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }}
+                        onClick={Alarm.stopAlarm}
+                        className="fixed top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-5 py-3 rounded-full bg-rose-500 text-white font-bold shadow-lg shadow-rose-500/30"
+                    >
+                        <span className="material-symbols-outlined animate-pulse">notifications_off</span> {t('alarm.stop')}
+                    </motion.button>
+                )}
+            </AnimatePresence>
+            {showSnoozePicker && (
+                <CustomDurationPicker
+                    onSelect={handleSnoozeSelect}
+                    onCancel={() => setShowSnoozePicker(false)}
+                    minMinutes={snoozeBounds.minMinutes}
+                />
+            )}
             <motion.div
                 key={step}
                 initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
                 className="flex-1 flex flex-col items-center justify-center px-6 py-8"
             >
+                {step === 'checkin' && (
+                    <div className="w-full flex-1 flex flex-col">
+                        <h1 className="text-2xl font-bold mb-2">{t('result.checkinTitle')}</h1>
+                        <p className="text-gray-500 mb-6">{t('result.checkinSubtitle')}</p>
+                        <Questionnaire
+                            questions={recheck}
+                            onFinish={(answers) => {
+                                setResultAnswers(answers);
+                                setStep('selection');
+                            }}
+                            finishLabel={<>{t('common.next')} <span className="material-symbols-outlined">arrow_forward</span></>}
+                        />
+                    </div>
+                )}
+
                 {step === 'selection' && (
                     <>
                         <motion.div
@@ -902,20 +1973,42 @@ const ResultScreen: React.FC<{
                             transition={{ type: "spring", bounce: 0.4 }}
                             className="w-48 h-48 rounded-[2rem] overflow-hidden mb-8 shadow-lg"
                         >
-                            <img src="https://picsum.photos/400/400" alt="Calm leaves" className="w-full h-full object-cover" />
+                            <img src="https://picsum.photos/400/400" alt={t('result.imageAlt')} className="w-full h-full object-cover" />
                         </motion.div>
 
                         {/* Added context box for user's original decision text */}
                         <div className="w-full bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 rounded-2xl p-4 mb-6 shadow-sm">
                             <div className="flex items-center gap-2 mb-1 text-primary">
                                 <span className="material-symbols-outlined text-sm">history</span>
-                                <span className="text-xs font-bold uppercase tracking-wide">Niat Awalmu</span>
+                                <span className="text-xs font-bold uppercase tracking-wide">{t('result.intent')}</span>
                             </div>
-                            <p className="font-medium text-lg leading-snug">"{decisionText}"</p>
+                            <p className="font-medium text-lg leading-snug">"{decision.text}"</p>
                         </div>
 
-                        <h1 className="text-2xl font-bold text-center mb-2">Waktu Habis!</h1>
-                        <p className="text-gray-500 text-center mb-8">Jadi, gimana keputusanmu sekarang?</p>
+                        {message && <MessageVault decision={decision} message={message} onResolve={handleMessageResolved} />}
+
+                        {comparisons.length > 0 && (
+                            <div className="w-full bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 rounded-2xl p-4 mb-6 shadow-sm">
+                                <div className="flex items-center gap-2 mb-3 text-primary">
+                                    <span className="material-symbols-outlined text-sm">compare_arrows</span>
+                                    <span className="text-xs font-bold uppercase tracking-wide">{t('result.beforeAfter')}</span>
+                                </div>
+                                <AnswerComparisonList comparisons={comparisons} />
+                            </div>
+                        )}
+
+                        {urge.length > 1 && (
+                            <div className="w-full bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 rounded-2xl p-4 mb-6 shadow-sm">
+                                <div className="flex items-center gap-2 mb-3 text-primary">
+                                    <span className="material-symbols-outlined text-sm">monitor_heart</span>
+                                    <span className="text-xs font-bold uppercase tracking-wide">{t('checkIn.chartTitle')}</span>
+                                </div>
+                                <UrgeChart points={urge} />
+                            </div>
+                        )}
+
+                        <h1 className="text-2xl font-bold text-center mb-2">{t('result.title')}</h1>
+                        <p className="text-gray-500 text-center mb-8">{t('result.question')}</p>
 
                         <motion.div
                             variants={containerStagger}
@@ -923,19 +2016,24 @@ const ResultScreen: React.FC<{
                             animate="show"
                             className="w-full space-y-4"
                         >
-                            <motion.div variants={itemVariant}>
-                                <Button onClick={() => handleSelection(DecisionStatus.COMPLETED)} variant="secondary" className="!bg-white !border-primary !text-primary-dark">
-                                    ✅ Lanjut, aku yakin
-                                </Button>
-                            </motion.div>
-                            <motion.div variants={itemVariant}>
-                                <Button onClick={() => handleSelection(DecisionStatus.CANCELLED)} variant="danger">
-                                    ❌ Nggak jadi deh
-                                </Button>
-                            </motion.div>
+                            {/* A vaulted message is settled through its own send / discard buttons, unless the vault is somehow still shut */}
+                            {(!message || !isVaultOpen(decision, Date.now())) && (
+                                <>
+                                    <motion.div variants={itemVariant}>
+                                        <Button onClick={() => handleSelection(DecisionStatus.COMPLETED)} variant="secondary" className="!bg-white !border-primary !text-primary-dark">
+                                            ✅ {t('result.choiceCompleted')}
+                                        </Button>
+                                    </motion.div>
+                                    <motion.div variants={itemVariant}>
+                                        <Button onClick={() => handleSelection(DecisionStatus.CANCELLED)} variant="danger">
+                                            ❌ {t('result.choiceCancelled')}
+                                        </Button>
+                                    </motion.div>
+                                </>
+                            )}
                             <motion.div variants={itemVariant}>
                                 <Button onClick={() => handleSelection(DecisionStatus.SNOOZED)} variant="ghost" className="bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400">
-                                    🤔 Tunda lagi
+                                    🤔 {t('result.choiceSnoozed')}
                                 </Button>
                             </motion.div>
                         </motion.div>
@@ -945,7 +2043,7 @@ const ResultScreen: React.FC<{
                 {step === 'feedback' && (
                     <div className="w-full flex flex-col h-full">
                         <button onClick={() => setStep('selection')} className="self-start mb-6 text-gray-400 hover:text-gray-600 flex items-center gap-1">
-                            <span className="material-symbols-outlined text-lg">arrow_back</span> Kembali
+                            <span className="material-symbols-outlined text-lg">arrow_back</span> {t('common.back')}
                         </button>
 
                         <h1 className="text-3xl font-bold mb-2">{content?.title}</h1>
@@ -1003,7 +2101,7 @@ const ResultScreen: React.FC<{
                             className="w-full"
                         >
                             <Button onClick={handleFinalClose}>
-                                Selesai
+                                {selectedAction === DecisionStatus.SNOOZED ? t('result.restart') : t('common.done')}
                             </Button>
                         </motion.div>
                     </div>
@@ -1013,107 +2111,1896 @@ const ResultScreen: React.FC<{
     );
 };
 
-// --- Main App Logic ---
+const DashboardScreen: React.FC<{
+    decisions: Decision[]
+}> = ({ decisions }) => {
+    const navigate = useNavigate();
+    const { t } = useI18n();
+    const categories = useCategories();
+    const [now, setNow] = useState(Date.now());
 
-const AnimatedRoutes: React.FC<{
-    activeDecision: Decision | null,
-    setDraftDecision: React.Dispatch<React.SetStateAction<Decision>>,
-    draftDecision: Decision,
-    startWaiting: (d: Decision) => void,
-    handleFinish: (s: DecisionStatus, note?: string) => void,
-    handleEmergency: () => void
-}> = ({ activeDecision, setDraftDecision, draftDecision, startWaiting, handleFinish, handleEmergency }) => {
-    const location = useLocation();
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
 
-    return (
-        <AnimatePresence mode="wait">
-            <div key={location.pathname} className="w-full h-full">
-                <Routes location={location}>
-                    <Route path="/" element={
-                        activeDecision && activeDecision.status === DecisionStatus.WAITING ? (
-                            Date.now() >= activeDecision.endTime ? <Navigate to="/result" /> : <Navigate to="/waiting" />
-                        ) : <LandingScreen />
-                    } />
+    const sorted = useMemo(() => [...decisions].sort((a, b) => a.endTime - b.endTime), [decisions]);
 
-                    <Route path="/how-it-works" element={<HowItWorksScreen />} />
-                    <Route path="/type" element={<DecisionTypeScreen setDraft={setDraftDecision} />} />
-                    <Route path="/input" element={<DecisionInputScreen draft={draftDecision} setDraft={setDraftDecision} />} />
-                    <Route path="/delay" element={<DelaySelectionScreen setDraft={setDraftDecision} />} />
-                    <Route path="/reflection" element={<ReflectionScreen draft={draftDecision} setDraft={setDraftDecision} startWaiting={startWaiting} />} />
-
-                    <Route path="/waiting" element={
-                        activeDecision ? (
-                            <WaitingScreen
-                                decision={activeDecision}
-                                onComplete={() => window.location.hash = '#/result'}
-                                onEmergency={handleEmergency}
-                            />
-                        ) : <Navigate to="/" />
-                    } />
+    return (
+        <Layout>
+            <NotificationRequestBanner />
+            <Header
+                onBack={() => navigate('/landing')}
+                title={t('dashboard.title')}
+                action={
+                    <motion.button
+                        whileTap={{ scale: 0.8 }}
+                        onClick={() => navigate('/settings')}
+                        className="flex size-10 items-center justify-center rounded-full text-slate-900 dark:text-white hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+                    >
+                        <span className="material-symbols-outlined text-[24px]">settings</span>
+                    </motion.button>
+                }
+            />
+            <motion.div
+                initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
+                className="flex-1 flex flex-col px-6 pb-8 overflow-y-auto"
+            >
+                <motion.div variants={containerStagger} initial="hidden" animate="show" className="space-y-4 mt-4">
+                    {sorted.map(d => {
+                        const category = resolveCategory(categories, d.categoryId);
+                        const { timeLeft, progress, expired } = getCountdownState(d.startTime, d.endTime, now);
+                        return (
+                            <motion.button
+                                key={d.id}
+                                variants={itemVariant}
+                                whileTap={{ scale: 0.98 }}
+                                onClick={() => navigate(expired ? `/result/${d.id}` : `/waiting/${d.id}`)}
+                                className="w-full p-4 rounded-3xl bg-white dark:bg-surface-dark shadow-sm border border-gray-100 dark:border-gray-800 text-left"
+                            >
+                                <div className="flex items-center gap-4 mb-3">
+                                    <div className={`flex-shrink-0 size-10 rounded-full flex items-center justify-center ${CATEGORY_COLOR_CLASSES[category.color]}`}>
+                                        <span className="material-symbols-outlined text-xl">{category.icon}</span>
+                                    </div>
+                                    <p className="flex-1 min-w-0 font-bold truncate">{d.text}</p>
+                                    {expired ? (
+                                        <span className="flex-shrink-0 px-2 py-1 rounded-full text-[10px] font-bold uppercase text-yellow-700 bg-yellow-50 dark:bg-yellow-900/20 dark:text-yellow-400">{t('dashboard.expired')}</span>
+                                    ) : (
+                                        <span className="flex-shrink-0 font-mono font-bold text-primary">
+                                            {String(timeLeft.h).padStart(2, '0')}:{String(timeLeft.m).padStart(2, '0')}:{String(timeLeft.s).padStart(2, '0')}
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                                    <div className="h-full bg-primary rounded-full transition-all duration-1000 ease-linear" style={{ width: `${progress}%` }} />
+                                </div>
+                            </motion.button>
+                        );
+                    })}
+                </motion.div>
 
-                    <Route path="/result" element={
-                        activeDecision ? (
-                            <ResultScreen
-                                onFinish={handleFinish}
-                                decisionText={activeDecision.text}
-                            />
-                        ) : <Navigate to="/" />
-                    } />
-                </Routes>
-            </div>
-        </AnimatePresence>
+                <div className="mt-auto pt-8 flex flex-col gap-4">
+                    <Button onClick={() => navigate('/type')}>
+                        <span className="material-symbols-outlined">add</span> {t('dashboard.new')}
+                    </Button>
+                    <Button variant="secondary" onClick={() => navigate('/journal')}>
+                        <span className="material-symbols-outlined">menu_book</span> {t('journal.title')}
+                    </Button>
+                    <WishlistButton />
+                </div>
+            </motion.div>
+        </Layout>
     );
 };
 
-const App: React.FC = () => {
-    const [activeDecision, setActiveDecision] = useState<Decision | null>(null);
-    const [draftDecision, setDraftDecision] = useState<Decision>(Storage.createDraftDecision());
-    const [isLoading, setIsLoading] = useState(true);
+const formatDayLabel = (locale: Locale, timestamp: number) =>
+    formatDate(locale, timestamp, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
 
-    // Initialize from storage
-    useEffect(() => {
-        const saved = Storage.getDecision();
-        if (saved) {
-            setActiveDecision(saved);
-        }
-        setIsLoading(false);
-    }, []);
+const FilterChip: React.FC<{
+    active: boolean;
+    onClick: () => void;
+    children: React.ReactNode;
+}> = ({ active, onClick, children }) => (
+    <button
+        onClick={onClick}
+        className={`flex-shrink-0 px-4 py-2 rounded-full text-xs font-bold transition-colors ${active ? 'bg-primary text-white shadow-sm shadow-primary/20' : 'bg-white dark:bg-surface-dark text-gray-500 dark:text-gray-400'}`}
+    >
+        {children}
+    </button>
+);
 
-    const startWaiting = useCallback((decision: Decision) => {
-        Storage.saveDecision(decision);
-        setActiveDecision(decision);
-    }, []);
+const JournalScreen: React.FC = () => {
+    const navigate = useNavigate();
+    const { locale, t } = useI18n();
+    const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+    const [statusFilter, setStatusFilter] = useState<DecisionStatus | null>(null);
+    const history = useHistory();
+    const categories = useCategories();
+
+    // Archived categories only stay filterable while they still have entries
+    const filterCategories = useMemo(
+        () => (categories ?? []).filter(c => !c.archived || history?.some(d => d.categoryId === c.id)),
+        [categories, history]
+    );
 
-    const handleFinish = useCallback((status: DecisionStatus, note?: string) => {
-        // In a real app with history, we would push to a history array here including the final note.
-        console.log("Finished:", status, note);
+    // Newest first, bucketed by the calendar day the decision was resolved
+    const groups = useMemo(() => {
+        const filtered = (history ?? [])
+            .filter(d => !categoryFilter || d.categoryId === categoryFilter)
+            .filter(d => !statusFilter || d.status === statusFilter)
+            .sort((a, b) => (b.resolvedAt ?? b.createdAt) - (a.resolvedAt ?? a.createdAt));
+
+        const byDay = new Map<string, Decision[]>();
+        filtered.forEach(d => {
+            const label = formatDayLabel(locale, d.resolvedAt ?? d.createdAt);
+            byDay.set(label, [...(byDay.get(label) ?? []), d]);
+        });
+        return Array.from(byDay.entries());
+    }, [history, categoryFilter, statusFilter, locale]);
 
-        Storage.clearDecision();
-        setActiveDecision(null);
-        setDraftDecision(Storage.createDraftDecision());
-    }, []);
+    return (
+        <Layout>
+            <Header
+                onBack={() => navigate('/')}
+                title={t('journal.title')}
+                action={
+                    <motion.button
+                        whileTap={{ scale: 0.8 }}
+                        onClick={() => navigate('/insights')}
+                        className="flex size-10 items-center justify-center rounded-full text-primary hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+                    >
+                        <span className="material-symbols-outlined text-[24px]">insights</span>
+                    </motion.button>
+                }
+            />
+            <motion.div
+                initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
+                className="flex-1 flex flex-col px-6 pb-8 overflow-y-auto"
+            >
+                <div className="flex gap-2 overflow-x-auto py-2">
+                    <FilterChip active={!categoryFilter} onClick={() => setCategoryFilter(null)}>{t('journal.filterAll')}</FilterChip>
+                    {filterCategories.map(category => (
+                        <FilterChip key={category.id} active={categoryFilter === category.id} onClick={() => setCategoryFilter(category.id)}>
+                            {categoryName(category, t)}
+                        </FilterChip>
+                    ))}
+                </div>
+                <div className="flex gap-2 overflow-x-auto py-2 mb-4">
+                    <FilterChip active={!statusFilter} onClick={() => setStatusFilter(null)}>{t('journal.filterAllOutcomes')}</FilterChip>
+                    {[DecisionStatus.COMPLETED, DecisionStatus.CANCELLED].map(status => (
+                        <FilterChip key={status} active={statusFilter === status} onClick={() => setStatusFilter(status)}>
+                            {t(OUTCOME_META[status]!.labelKey)}
+                        </FilterChip>
+                    ))}
+                </div>
 
-    const handleEmergency = useCallback(() => {
-        if (activeDecision) {
-            const updated = { ...activeDecision, endTime: Date.now() };
-            Storage.saveDecision(updated);
-            setActiveDecision(updated);
-        }
-    }, [activeDecision]);
+                {groups.length === 0 ? (
+                    <div className="flex-1 flex flex-col items-center justify-center text-center text-gray-400 gap-3">
+                        <span className="material-symbols-outlined text-5xl">menu_book</span>
+                        <p className="text-sm">{history?.length === 0 ? t('journal.empty') : t('journal.noMatch')}</p>
+                    </div>
+                ) : (
+                    <motion.div variants={containerStagger} initial="hidden" animate="show" className="space-y-6">
+                        {groups.map(([day, decisions]) => (
+                            <motion.div key={day} variants={itemVariant}>
+                                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mb-3">{day}</h3>
+                                <div className="space-y-3">
+                                    {decisions.map(d => {
+                                        const category = resolveCategory(categories, d.categoryId);
+                                        const outcome = OUTCOME_META[d.status];
+                                        return (
+                                            <motion.button
+                                                key={d.id}
+                                                whileTap={{ scale: 0.98 }}
+                                                onClick={() => navigate(`/journal/${d.id}`)}
+                                                className="w-full flex items-center gap-4 p-4 rounded-3xl bg-white dark:bg-surface-dark shadow-sm border border-gray-100 dark:border-gray-800 text-left"
+                                            >
+                                                <div className={`flex-shrink-0 size-10 rounded-full flex items-center justify-center ${CATEGORY_COLOR_CLASSES[category.color]}`}>
+                                                    <span className="material-symbols-outlined text-xl">{category.icon}</span>
+                                                </div>
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="font-bold truncate">{d.text}</p>
+                                                    <p className="text-xs text-gray-400">
+                                                        {formatTime(locale, d.resolvedAt ?? d.createdAt)}
+                                                        {d.snoozes?.length ? ` · ${t('journal.snoozedCount', { count: d.snoozes.length })}` : ''}
+                                                        {d.emergencySkippedAt ? ` · ${t('journal.skipped')}` : ''}
+                                                    </p>
+                                                </div>
+                                                {outcome && (
+                                                    <span className={`flex-shrink-0 px-2 py-1 rounded-full text-[10px] font-bold uppercase ${outcome.color}`}>{t(outcome.labelKey)}</span>
+                                                )}
+                                            </motion.button>
+                                        );
+                                    })}
+                                </div>
+                            </motion.div>
+                        ))}
+                    </motion.div>
+                )}
+            </motion.div>
+        </Layout>
+    );
+};
 
-    if (isLoading) return <div className="h-screen w-full bg-background-light dark:bg-background-dark" />;
+const JournalDetailScreen: React.FC = () => {
+    const navigate = useNavigate();
+    const { id } = useParams<{ id: string }>();
+    const { locale, t } = useI18n();
+    const history = useHistory();
+    const categories = useCategories();
+
+    if (!history) return null;
+
+    const decision = history.find(d => d.id === id);
+    if (!decision) return <Navigate to="/journal" replace />;
+
+    const category = resolveCategory(categories, decision.categoryId);
+    const outcome = OUTCOME_META[decision.status];
+
+    // Decisions from before per-category questions kept a single free-text reflection
+    const reflections = decision.reflectionAnswers
+        ? decision.reflectionAnswers.map(entry => ({ icon: 'psychology_alt', label: entry.question, body: formatAnswer(entry, t) }))
+        : [{ icon: 'psychology_alt', label: t('journalDetail.reflection'), body: decision.reflectionText }];
+    const comparisons = compareAnswers(decision.reflectionAnswers ?? [], decision.resultAnswers ?? []);
+    const urge = urgeSeries(decision);
+
+    const sections = [
+        { icon: 'history', label: t('result.intent'), body: decision.text },
+        ...reflections,
+        { icon: 'edit_note', label: t('journalDetail.finalNote'), body: decision.finalNote },
+    ];
 
     return (
-        <HashRouter>
-            <AnimatedRoutes
-                activeDecision={activeDecision}
-                setDraftDecision={setDraftDecision}
-                draftDecision={draftDecision}
-                startWaiting={startWaiting}
-                handleFinish={handleFinish}
-                handleEmergency={handleEmergency}
-            />
-        </HashRouter>
+        <Layout>
+            <Header onBack={() => navigate('/journal')} title={t('journalDetail.title')} />
+            <motion.div
+                initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
+                className="flex-1 flex flex-col px-6 pb-8 overflow-y-auto"
+            >
+                <div className="flex items-center gap-3 mb-6 mt-2">
+                    <div className={`size-12 rounded-full flex items-center justify-center ${CATEGORY_COLOR_CLASSES[category.color]}`}>
+                        <span className="material-symbols-outlined text-2xl">{category.icon}</span>
+                    </div>
+                    <div className="flex-1">
+                        <p className="font-bold">{categoryName(category, t)}</p>
+                        <p className="text-xs text-gray-400">
+                            {formatDayLabel(locale, decision.resolvedAt ?? decision.createdAt)} · {formatTime(locale, decision.resolvedAt ?? decision.createdAt)}
+                        </p>
+                    </div>
+                    {outcome && (
+                        <span className={`px-3 py-1 rounded-full text-xs font-bold uppercase flex items-center gap-1 ${outcome.color}`}>
+                            <span className="material-symbols-outlined text-sm">{outcome.icon}</span> {t(outcome.labelKey)}
+                        </span>
+                    )}
+                </div>
+
+                <motion.div variants={containerStagger} initial="hidden" animate="show" className="space-y-4">
+                    {sections.map((section, idx) => (
+                        <motion.div key={idx} variants={itemVariant} className="bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 rounded-2xl p-4 shadow-sm">
+                            <div className="flex items-center gap-2 mb-1 text-primary">
+                                <span className="material-symbols-outlined text-sm">{section.icon}</span>
+                                <span className="text-xs font-bold uppercase tracking-wide">{section.label}</span>
+                            </div>
+                            {section.body?.trim()
+                                ? <p className="font-medium leading-snug whitespace-pre-wrap">{section.body}</p>
+                                : <p className="text-sm text-gray-400 italic">{t('journalDetail.noNote')}</p>}
+                        </motion.div>
+                    ))}
+                </motion.div>
+
+                {decision.wishlist && (
+                    <div className="mt-6 flex gap-3 p-4 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 shadow-sm">
+                        <span className="material-symbols-outlined text-primary">bookmarks</span>
+                        <div className="flex-1 min-w-0">
+                            <p className="text-xs font-bold text-primary">
+                                {t('journalDetail.fromWishlist', { count: Math.floor(decision.durationMinutes / (24 * 60)) })}
+                                {decision.wishlist.recheckCount > 0 && ` · ${t('journalDetail.rechecks', { count: decision.wishlist.recheckCount })}`}
+                            </p>
+                            {decision.wishlist.notes && <p className="text-sm leading-snug whitespace-pre-wrap mt-1">{decision.wishlist.notes}</p>}
+                            {decision.wishlist.url && isWebUrl(decision.wishlist.url) && (
+                                <a href={decision.wishlist.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-xs font-medium text-primary mt-1">
+                                    <span className="material-symbols-outlined text-sm">open_in_new</span> {t('wishlist.openLink')}
+                                </a>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {decision.message && (
+                    <div className="mt-6">
+                        <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mb-3">
+                            {decision.message.recipient ? t('vault.titleFor', { recipient: decision.message.recipient }) : t('vault.title')}
+                            {decision.message.outcome && ` · ${t(MESSAGE_OUTCOME_LABELS[decision.message.outcome])}`}
+                        </h3>
+                        <div className="p-4 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 shadow-sm space-y-3">
+                            <div>
+                                <p className="text-[10px] font-bold uppercase tracking-wide text-gray-400 mb-1">{t('vault.original')}</p>
+                                <p className={`text-sm leading-snug whitespace-pre-wrap ${decision.message.revisedBody !== undefined ? 'text-gray-400 line-through decoration-1' : ''}`}>{decision.message.body}</p>
+                            </div>
+                            {decision.message.revisedBody !== undefined && (
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-wide text-gray-400 mb-1">{t('vault.revised')}</p>
+                                    <p className="text-sm leading-snug whitespace-pre-wrap">{decision.message.revisedBody}</p>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {comparisons.length > 0 && (
+                    <div className="mt-6">
+                        <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mb-3">{t('result.beforeAfter')}</h3>
+                        <div className="p-4 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 shadow-sm">
+                            <AnswerComparisonList comparisons={comparisons} />
+                        </div>
+                    </div>
+                )}
+
+                {urge.length > 1 && (
+                    <div className="mt-6">
+                        <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mb-3">{t('checkIn.chartTitle')}</h3>
+                        <div className="p-4 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 shadow-sm">
+                            <UrgeChart points={urge} />
+                        </div>
+                    </div>
+                )}
+
+                {decision.snoozes && decision.snoozes.length > 0 && (
+                    <div className="mt-6">
+                        <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mb-3">{t('journalDetail.snoozeRounds', { count: decision.snoozes.length })}</h3>
+                        <div className="space-y-3">
+                            {decision.snoozes.map((round, idx) => (
+                                <div key={round.snoozedAt} className="flex gap-3 p-4 rounded-2xl bg-yellow-50 dark:bg-yellow-900/20">
+                                    <span className="material-symbols-outlined text-yellow-600 dark:text-yellow-400">hourglass_bottom</span>
+                                    <div className="flex-1">
+                                        <p className="text-xs font-bold text-yellow-700 dark:text-yellow-400">
+                                            {t('journalDetail.round', { number: idx + 1 })} · {formatTime(locale, round.snoozedAt)} · +{formatDuration(locale, round.durationMinutes)}
+                                        </p>
+                                        {round.note?.trim()
+                                            ? <p className="text-sm leading-snug whitespace-pre-wrap">{round.note}</p>
+                                            : <p className="text-sm text-gray-400 italic">{t('journalDetail.noNote')}</p>}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {decision.emergencySkippedAt && (
+                    <div className="mt-6 flex gap-3 p-4 rounded-2xl bg-rose-50 dark:bg-rose-900/20">
+                        <span className="material-symbols-outlined text-rose-600 dark:text-rose-400">bolt</span>
+                        <div className="flex-1">
+                            <p className="text-xs font-bold text-rose-600 dark:text-rose-400">
+                                {t('journalDetail.skipped')} · {formatTime(locale, decision.emergencySkippedAt)}
+                                {decision.emergencyForfeitedMinutes !== undefined && ` · ${t('journalDetail.forfeited', { duration: formatDuration(locale, decision.emergencyForfeitedMinutes) })}`}
+                            </p>
+                            {decision.emergencyReason
+                                ? <p className="text-sm leading-snug whitespace-pre-wrap">{decision.emergencyReason}</p>
+                                : <p className="text-sm text-gray-400 italic">{t('journalDetail.noNote')}</p>}
+                        </div>
+                    </div>
+                )}
+
+                <p className="text-xs text-gray-400 text-center mt-6">
+                    {t('journalDetail.pausedFor', { duration: formatDuration(locale, decision.durationMinutes) })}
+                    {decision.amount !== undefined && decision.currency ? ` · ${formatMoney(locale, decision.amount, decision.currency)}` : ''}
+                    {decision.breathingCycles ? ` · ${t('journalDetail.breathing', { count: decision.breathingCycles, duration: formatDuration(locale, (decision.breathingSeconds ?? 0) / 60) })}` : ''}
+                </p>
+            </motion.div>
+        </Layout>
+    );
+};
+
+const PERIOD_OPTIONS: { value: Analytics.InsightsPeriod; days?: number }[] = [
+    { value: '7d', days: 7 },
+    { value: '30d', days: 30 },
+    { value: '90d', days: 90 },
+    { value: 'all' },
+];
+
+// Short weekday names, Sunday first to match Date#getDay (4 Jan 1970 was a Sunday)
+const dayLabels = (locale: Locale) =>
+    Array.from({ length: 7 }, (_, day) => formatDate(locale, Date.UTC(1970, 0, 4 + day, 12), { weekday: 'short' }));
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const StatCard: React.FC<{ icon: string; label: string; value: string; color: string }> = ({ icon, label, value, color }) => (
+    <motion.div variants={itemVariant} className="p-4 rounded-3xl bg-white dark:bg-surface-dark shadow-sm border border-gray-100 dark:border-gray-800">
+        <div className={`size-10 rounded-full flex items-center justify-center mb-3 ${color}`}>
+            <span className="material-symbols-outlined text-xl">{icon}</span>
+        </div>
+        <p className="text-2xl font-extrabold">{value}</p>
+        <p className="text-xs text-gray-400">{label}</p>
+    </motion.div>
+);
+
+// --- Wishlist ---
+
+// Shows how many items are waiting for a "still want it?" answer
+const WishlistButton: React.FC = () => {
+    const navigate = useNavigate();
+    const { t } = useI18n();
+    const [items] = useWishlist();
+    const now = Date.now();
+    const due = items?.filter(item => isRecheckDue(item, now)).length ?? 0;
+
+    return (
+        <Button variant="secondary" onClick={() => navigate('/wishlist')}>
+            <span className="material-symbols-outlined">bookmarks</span> {t('wishlist.title')}
+            {due > 0 && <span className="px-2 py-0.5 rounded-full bg-yellow-400 text-yellow-900 text-xs">{due}</span>}
+        </Button>
+    );
+};
+
+const WishlistItemSheet: React.FC<{
+    onSave: (fields: NewWishlistItem) => void;
+    onCancel: () => void;
+}> = ({ onSave, onCancel }) => {
+    const { t, locale } = useI18n();
+    const [name, setName] = useState('');
+    const [amount, setAmount] = useState('');
+    const [currency, setCurrency] = useState(CURRENCIES[0]);
+    const [url, setUrl] = useState('');
+    const [notes, setNotes] = useState('');
+    const [coolOffDays, setCoolOffDays] = useState(DEFAULT_COOL_OFF_DAYS);
+    const [recheckEveryDays, setRecheckEveryDays] = useState(DEFAULT_RECHECK_DAYS);
+    const urlInvalid = url.trim() !== '' && !normalizeUrl(url);
+
+    const handleSave = () => {
+        if (!name.trim() || urlInvalid) return;
+        const parsedAmount = parseFloat(amount.replace(',', '.'));
+        const hasAmount = !isNaN(parsedAmount) && parsedAmount > 0;
+        onSave({
+            name: name.trim(),
+            amount: hasAmount ? parsedAmount : undefined,
+            currency: hasAmount ? currency : undefined,
+            url: normalizeUrl(url),
+            notes: notes.trim() || undefined,
+            coolOffDays,
+            recheckEveryDays,
+        });
+    };
+
+    const inputClass = "w-full p-3 rounded-2xl bg-gray-50 dark:bg-black/20 outline-none focus:ring-2 focus:ring-primary";
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/40 backdrop-blur-sm"
+        >
+            <div className="bg-white dark:bg-surface-dark w-full max-w-sm max-h-full overflow-y-auto rounded-3xl p-6 shadow-2xl space-y-3">
+                <h3 className="text-xl font-bold mb-1">{t('wishlist.add')}</h3>
+                <input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder={t('wishlist.namePlaceholder')} className={`${inputClass} font-bold`} />
+                <div className="flex gap-2">
+                    <select value={currency} onChange={(e) => setCurrency(e.target.value)} className="w-24 p-3 rounded-2xl bg-gray-50 dark:bg-black/20 font-bold outline-none focus:ring-2 focus:ring-primary">
+                        {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <input type="number" inputMode="decimal" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder={t('wishlist.pricePlaceholder')} className={`${inputClass} flex-1`} />
+                </div>
+                <input type="url" inputMode="url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder={t('wishlist.urlPlaceholder')} className={inputClass} />
+                {urlInvalid && <p className="text-xs text-red-500">{t('wishlist.urlInvalid')}</p>}
+                <textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder={t('wishlist.notesPlaceholder')} className={`${inputClass} h-20 resize-none`} />
+
+                <p className="text-sm font-medium pt-1">{t('wishlist.coolOff')}</p>
+                <div className="flex flex-wrap gap-2">
+                    {COOL_OFF_OPTIONS.map(days => (
+                        <FilterChip key={days} active={coolOffDays === days} onClick={() => setCoolOffDays(days)}>
+                            {formatDuration(locale, days * 24 * 60)}
+                        </FilterChip>
+                    ))}
+                </div>
+                <p className="text-sm font-medium pt-1">{t('wishlist.recheckEvery')}</p>
+                <div className="flex flex-wrap gap-2">
+                    {RECHECK_OPTIONS.map(days => (
+                        <FilterChip key={days} active={recheckEveryDays === days} onClick={() => setRecheckEveryDays(days)}>
+                            {formatDuration(locale, days * 24 * 60)}
+                        </FilterChip>
+                    ))}
+                </div>
+
+                <div className="flex gap-3 pt-3">
+                    <Button variant="ghost" onClick={onCancel} className="flex-1">{t('common.cancel')}</Button>
+                    <Button onClick={handleSave} disabled={!name.trim() || urlInvalid} className="flex-1">{t('common.save')}</Button>
+                </div>
+            </div>
+        </motion.div>
+    );
+};
+
+const WishlistItemCard: React.FC<{
+    item: WishlistItem;
+    now: number;
+    onStillWanted: () => void;
+    onSettle: (bought: boolean) => void;
+}> = ({ item, now, onStillWanted, onSettle }) => {
+    const { t, locale } = useI18n();
+    const coolingOff = isCoolingOff(item, now);
+    const recheckDue = isRecheckDue(item, now);
+
+    return (
+        <motion.div variants={itemVariant} className="p-4 rounded-3xl bg-white dark:bg-surface-dark shadow-sm border border-gray-100 dark:border-gray-800">
+            <div className="flex items-start gap-3 mb-1">
+                <p className="flex-1 min-w-0 font-bold break-words">{item.name}</p>
+                {item.amount !== undefined && item.currency && (
+                    <span className="flex-shrink-0 font-bold text-primary">{formatMoney(locale, item.amount, item.currency)}</span>
+                )}
+            </div>
+            <p className="text-xs text-gray-400 mb-3">
+                {t('wishlist.survived', { count: daysSurvived(item, now) })}
+                {' · '}
+                {coolingOff
+                    ? t('wishlist.coolingUntil', { date: formatDate(locale, coolOffEndsAt(item), { day: 'numeric', month: 'short' }) })
+                    : t('wishlist.cooledOff')}
+            </p>
+            <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden mb-3">
+                <div className="h-full bg-primary rounded-full" style={{ width: `${coolOffProgress(item, now)}%` }} />
+            </div>
+            {item.notes && <p className="text-sm text-gray-500 dark:text-gray-400 whitespace-pre-wrap mb-2">{item.notes}</p>}
+            {item.url && isWebUrl(item.url) && (
+                <a href={item.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-xs font-medium text-primary mb-3">
+                    <span className="material-symbols-outlined text-sm">open_in_new</span> {t('wishlist.openLink')}
+                </a>
+            )}
+
+            {recheckDue ? (
+                <div className="p-3 rounded-2xl bg-yellow-50 dark:bg-yellow-900/20">
+                    <p className="text-sm font-bold text-yellow-700 dark:text-yellow-400 mb-2">{t('wishlist.recheckPrompt')}</p>
+                    <div className="flex gap-4 text-sm">
+                        <button onClick={onStillWanted} className="font-bold text-yellow-700 dark:text-yellow-400">{t('wishlist.stillWant')}</button>
+                        <button onClick={() => onSettle(false)} className="font-medium text-gray-500">{t('wishlist.drop')}</button>
+                    </div>
+                </div>
+            ) : (
+                <div className="flex gap-4 text-sm">
+                    <button
+                        onClick={() => onSettle(true)}
+                        disabled={coolingOff}
+                        className="flex items-center gap-1 font-bold text-primary disabled:text-gray-300 dark:disabled:text-gray-600"
+                    >
+                        <span className="material-symbols-outlined text-lg">shopping_bag</span> {t('wishlist.bought')}
+                    </button>
+                    <button onClick={() => onSettle(false)} className="flex items-center gap-1 font-medium text-gray-500">
+                        <span className="material-symbols-outlined text-lg">block</span> {t('wishlist.drop')}
+                    </button>
+                </div>
+            )}
+        </motion.div>
+    );
+};
+
+const WishlistScreen: React.FC = () => {
+    const navigate = useNavigate();
+    const repository = useRepository();
+    const { t } = useI18n();
+    const [items, reload] = useWishlist();
+    const [adding, setAdding] = useState(false);
+    const now = Date.now();
+
+    const addItem = async (fields: NewWishlistItem) => {
+        await repository.saveWishlistItem(createWishlistItem(fields));
+        setAdding(false);
+        await reload();
+    };
+
+    const stillWanted = async (item: WishlistItem) => {
+        await repository.saveWishlistItem(confirmStillWanted(item, Date.now()));
+        await reload();
+    };
+
+    const settle = async (item: WishlistItem, bought: boolean) => {
+        await repository.archiveWishlistItem(item.id, settleWishlistItem(item, bought, Date.now()));
+        await reload();
+    };
+
+    return (
+        <Layout>
+            {adding && <WishlistItemSheet onSave={addItem} onCancel={() => setAdding(false)} />}
+            <Header onBack={() => navigate('/')} title={t('wishlist.title')} />
+            <motion.div
+                initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
+                className="flex-1 flex flex-col px-6 pb-8 overflow-y-auto"
+            >
+                <p className="text-gray-500 dark:text-gray-400 mt-2 mb-6">{t('wishlist.subtitle')}</p>
+
+                {items && items.length === 0 && (
+                    <div className="flex-1 flex flex-col items-center justify-center text-center text-gray-400 py-12">
+                        <span className="material-symbols-outlined text-5xl mb-3">bookmarks</span>
+                        <p>{t('wishlist.empty')}</p>
+                    </div>
+                )}
+
+                <motion.div variants={containerStagger} initial="hidden" animate="show" className="space-y-4">
+                    {items?.map(item => (
+                        <WishlistItemCard
+                            key={item.id}
+                            item={item}
+                            now={now}
+                            onStillWanted={() => stillWanted(item)}
+                            onSettle={(bought) => settle(item, bought)}
+                        />
+                    ))}
+                </motion.div>
+
+                <div className="mt-auto pt-8">
+                    <Button onClick={() => setAdding(true)}>
+                        <span className="material-symbols-outlined">add</span> {t('wishlist.add')}
+                    </Button>
+                </div>
+            </motion.div>
+        </Layout>
+    );
+};
+
+const InsightsScreen: React.FC = () => {
+    const navigate = useNavigate();
+    const { locale, t } = useI18n();
+    const [period, setPeriod] = useState<Analytics.InsightsPeriod>('30d');
+    const history = useHistory();
+    const categories = useCategories();
+    const insights = useMemo(() => Analytics.computeInsights(history ?? [], period, Date.now()), [history, period]);
+    const peak = Math.max(1, ...insights.heatmap.flat());
+    const days = useMemo(() => dayLabels(locale), [locale]);
+    const categoryStats = useMemo(() => Object.entries(insights.byCategory)
+        .map(([id, stats]) => ({ category: resolveCategory(categories, id), stats }))
+        .sort((a, b) => a.category.order - b.category.order), [insights, categories]);
+
+    return (
+        <Layout>
+            <Header onBack={() => navigate('/journal')} title={t('insights.title')} />
+            <motion.div
+                initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
+                className="flex-1 flex flex-col px-6 pb-8 overflow-y-auto"
+            >
+                <div className="flex gap-2 overflow-x-auto py-2 mb-4">
+                    {PERIOD_OPTIONS.map(option => (
+                        <FilterChip key={option.value} active={period === option.value} onClick={() => setPeriod(option.value)}>
+                            {option.days ? t('duration.days', { count: option.days }) : t('journal.filterAll')}
+                        </FilterChip>
+                    ))}
+                </div>
+
+                {insights.overall.total === 0 ? (
+                    <div className="flex-1 flex flex-col items-center justify-center text-center text-gray-400 gap-3">
+                        <span className="material-symbols-outlined text-5xl">insights</span>
+                        <p className="text-sm">{t('insights.empty')}</p>
+                    </div>
+                ) : (
+                    <motion.div variants={containerStagger} initial="hidden" animate="show" className="space-y-6">
+                        <div className="grid grid-cols-2 gap-4">
+                            <StatCard icon="shield" label={t('insights.resisted')} value={formatPercent(insights.overall.resistRate)} color="text-rose-600 bg-rose-50 dark:bg-rose-900/30 dark:text-rose-400" />
+                            <StatCard icon="menu_book" label={t('insights.recorded')} value={formatNumber(locale, insights.overall.total)} color="text-primary bg-green-50 dark:bg-green-900/20" />
+                            <StatCard icon="timer" label={t('insights.averagePause')} value={formatDuration(locale, insights.overall.averageDurationMinutes)} color="text-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-blue-400" />
+                            <StatCard icon="bolt" label={t('insights.emergency')} value={formatPercent(insights.overall.emergencySkipRate)} color="text-yellow-700 bg-yellow-50 dark:bg-yellow-900/20 dark:text-yellow-400" />
+                        </div>
+                        {insights.overall.emergencySkips > 0 && (
+                            <p className="text-xs text-gray-400 text-center -mt-2">
+                                {t('insights.forfeited', { count: insights.overall.emergencySkips, duration: formatDuration(locale, insights.overall.forfeitedMinutes) })}
+                            </p>
+                        )}
+
+                        <motion.div variants={itemVariant}>
+                            <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mb-3">{t('insights.byCategory')}</h3>
+                            <div className="space-y-3">
+                                {categoryStats.map(({ category, stats }) => {
+                                    return (
+                                        <div key={category.id} className="p-4 rounded-3xl bg-white dark:bg-surface-dark shadow-sm border border-gray-100 dark:border-gray-800">
+                                            <div className="flex items-center gap-3 mb-3">
+                                                <div className={`size-8 rounded-full flex items-center justify-center ${CATEGORY_COLOR_CLASSES[category.color]}`}>
+                                                    <span className="material-symbols-outlined text-lg">{category.icon}</span>
+                                                </div>
+                                                <p className="flex-1 font-bold">{categoryName(category, t)}</p>
+                                                <p className="text-xs text-gray-400">{t('insights.entries', { count: stats.total })}</p>
+                                            </div>
+                                            <div className="flex h-2 rounded-full overflow-hidden bg-gray-100 dark:bg-gray-800 mb-2">
+                                                <div className="bg-rose-400" style={{ width: formatPercent(stats.cancelled / Math.max(1, stats.total)) }} />
+                                                <div className="bg-primary" style={{ width: formatPercent(stats.completed / Math.max(1, stats.total)) }} />
+                                            </div>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                {t('insights.categorySummary', {
+                                                    cancelled: stats.cancelled,
+                                                    completed: stats.completed,
+                                                    average: formatDuration(locale, stats.averageDurationMinutes),
+                                                    emergency: formatPercent(stats.emergencySkipRate),
+                                                })}
+                                            </p>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </motion.div>
+
+                        <motion.div variants={itemVariant}>
+                            <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mb-3">{t('insights.heatmap')}</h3>
+                            <div className="p-4 rounded-3xl bg-white dark:bg-surface-dark shadow-sm border border-gray-100 dark:border-gray-800">
+                                {insights.heatmap.map((hours, day) => (
+                                    <div key={day} className="flex items-center gap-1 mb-1">
+                                        <span className="w-8 text-[10px] text-gray-400">{days[day]}</span>
+                                        <div className="flex-1 grid grid-cols-[repeat(24,minmax(0,1fr))] gap-[2px]">
+                                            {hours.map((count, hour) => (
+                                                <div
+                                                    key={hour}
+                                                    title={`${days[day]} ${String(hour).padStart(2, '0')}:00 · ${count}`}
+                                                    className="aspect-square rounded-sm bg-primary"
+                                                    style={{ opacity: count === 0 ? 0.08 : 0.25 + 0.75 * (count / peak) }}
+                                                />
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                                <div className="flex justify-between pl-9 text-[10px] text-gray-400 mt-1">
+                                    <span>00</span><span>06</span><span>12</span><span>18</span><span>23</span>
+                                </div>
+                            </div>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </motion.div>
+        </Layout>
+    );
+};
+
+const SettingToggle: React.FC<{
+    icon: string;
+    title: string;
+    hint: string;
+    checked: boolean;
+    onToggle: () => void;
+}> = ({ icon, title, hint, checked, onToggle }) => (
+    <button
+        onClick={onToggle}
+        role="switch"
+        aria-checked={checked}
+        className="w-full flex items-center gap-3 p-4 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 text-left"
+    >
+        <span className="material-symbols-outlined text-gray-500">{icon}</span>
+        <div className="flex-1">
+            <p className="font-bold text-sm">{title}</p>
+            <p className="text-xs text-gray-400">{hint}</p>
+        </div>
+        <span className={`w-10 h-6 rounded-full p-1 transition-colors ${checked ? 'bg-primary' : 'bg-gray-200 dark:bg-gray-700'}`}>
+            <span className={`block size-4 rounded-full bg-white transition-transform ${checked ? 'translate-x-4' : ''}`} />
+        </span>
+    </button>
+);
+
+const ALARM_TONE_LABELS: Record<AlarmToneId, MessageKey> = {
+    success: 'alarm.tone.success',
+    chime: 'alarm.tone.chime',
+    bell: 'alarm.tone.bell',
+    pulse: 'alarm.tone.pulse',
+    custom: 'alarm.tone.custom',
+};
+
+const CUSTOM_TONE_ERRORS: Record<Alarm.CustomToneError, MessageKey> = {
+    notAudio: 'alarm.error.notAudio',
+    tooLarge: 'alarm.error.tooLarge',
+    storageFull: 'alarm.error.storageFull',
+};
+
+const AlarmSettingsPanel: React.FC = () => {
+    const { locale, t } = useI18n();
+    const { alarm: settings } = usePreferences();
+    const [customTone, setCustomTone] = useState(Alarm.getCustomTone);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const ringing = useAlarmRinging();
+
+    // Previews shouldn't outlive the settings screen
+    useEffect(() => Alarm.stopPreview, []);
+
+    const update = (changes: Partial<AlarmSettings>) => updatePreferences({ alarm: { ...settings, ...changes } });
+
+    const formatSeconds = (seconds: number) =>
+        seconds < 60 ? t('duration.seconds', { count: seconds }) : formatDuration(locale, seconds / 60);
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const failure = await Alarm.saveCustomTone(file);
+        if (failure) {
+            setError(t(CUSTOM_TONE_ERRORS[failure], { size: formatNumber(locale, Alarm.MAX_CUSTOM_TONE_BYTES / (1024 * 1024)) }));
+            return;
+        }
+        setError(null);
+        setCustomTone(Alarm.getCustomTone());
+        update({ tone: 'custom' });
+    };
+
+    const removeUpload = () => {
+        Alarm.removeCustomTone();
+        setCustomTone(null);
+        if (settings.tone === 'custom') update({ tone: 'success' });
+    };
+
+    const tones: AlarmToneId[] = customTone ? [...BUNDLED_TONES, 'custom'] : [...BUNDLED_TONES];
+
+    return (
+        <div className="space-y-4">
+            <SettingToggle
+                icon={settings.silent ? 'volume_off' : 'volume_up'}
+                title={t('alarm.silent')}
+                hint={t('alarm.silentHint')}
+                checked={settings.silent}
+                onToggle={() => update({ silent: !settings.silent })}
+            />
+
+            <div className={`space-y-4 ${settings.silent ? 'opacity-50' : ''}`}>
+                <div>
+                    <p className="text-sm font-medium mb-2">{t('alarm.tone')}</p>
+                    <div className="flex flex-wrap gap-2">
+                        {tones.map(tone => (
+                            <FilterChip key={tone} active={settings.tone === tone} onClick={() => update({ tone })}>
+                                {t(ALARM_TONE_LABELS[tone])}
+                            </FilterChip>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-3 mt-3 text-sm">
+                        <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-primary font-medium">
+                            <span className="material-symbols-outlined text-lg">upload</span> {t('alarm.upload')}
+                        </button>
+                        {customTone && (
+                            <>
+                                <span className="flex-1 truncate text-xs text-gray-400">{customTone.name}</span>
+                                <button onClick={removeUpload} className="text-rose-500 text-xs font-medium">{t('settings.delete')}</button>
+                            </>
+                        )}
+                    </div>
+                    <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleUpload} />
+                    {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+                </div>
+
+                <div>
+                    <p className="text-sm font-medium mb-2">{t('alarm.volume', { percent: formatPercent(settings.volume) })}</p>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={Math.round(settings.volume * 100)}
+                        onChange={(e) => update({ volume: Number(e.target.value) / 100 })}
+                        className="w-full accent-primary"
+                    />
+                </div>
+
+                <div>
+                    <p className="text-sm font-medium mb-2">{t('alarm.fadeIn')}</p>
+                    <div className="flex flex-wrap gap-2">
+                        {FADE_IN_OPTIONS.map(seconds => (
+                            <FilterChip key={seconds} active={settings.fadeInSeconds === seconds} onClick={() => update({ fadeInSeconds: seconds })}>
+                                {seconds === 0 ? t('alarm.noFade') : formatSeconds(seconds)}
+                            </FilterChip>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <p className="text-sm font-medium mb-2">{t('alarm.maxRing')}</p>
+                    <div className="flex flex-wrap gap-2">
+                        {MAX_RING_OPTIONS.map(seconds => (
+                            <FilterChip key={seconds} active={settings.maxRingSeconds === seconds} onClick={() => update({ maxRingSeconds: seconds })}>
+                                {formatSeconds(seconds)}
+                            </FilterChip>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <Button variant="secondary" onClick={() => ringing ? Alarm.stopAlarm() : Alarm.previewAlarm(settings)}>
+                <span className="material-symbols-outlined">{ringing ? 'stop' : 'play_arrow'}</span>
+                {t(ringing ? 'alarm.stopPreview' : 'alarm.preview')}
+            </Button>
+        </div>
+    );
+};
+
+const AppLockPanel: React.FC = () => {
+    const { t } = useI18n();
+    const lock = useAppLock();
+    const [mode, setMode] = useState<'idle' | 'enable' | 'disable'>('idle');
+    const [pin, setPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [biometricAvailable, setBiometricAvailable] = useState(false);
+    const [biometric, setBiometric] = useState(AppLock.hasBiometricUnlock);
+
+    useEffect(() => {
+        AppLock.isBiometricAvailable().then(setBiometricAvailable);
+    }, []);
+
+    const close = () => {
+        setMode('idle');
+        setPin('');
+        setConfirmPin('');
+        setError(null);
+    };
+
+    const submit = async () => {
+        if (mode === 'enable' && pin !== confirmPin) {
+            setError(t('lock.mismatch'));
+            return;
+        }
+
+        setBusy(true);
+        if (mode === 'enable') {
+            await lock.enable(pin);
+            close();
+        } else {
+            const result = await lock.disable(pin);
+            if (result.key) {
+                setBiometric(false);
+                close();
+            } else {
+                setPin('');
+                setError(result.lockedUntil ? t('lock.tooManyAttempts') : t('lock.wrongPin', { count: result.attemptsLeft }));
+            }
+        }
+        setBusy(false);
+    };
+
+    const toggleBiometric = async () => {
+        if (biometric) {
+            AppLock.removeBiometric();
+            setBiometric(false);
+            return;
+        }
+        const enrolled = await lock.enrollBiometric();
+        setBiometric(enrolled);
+        setError(enrolled ? null : t('lock.biometricUnsupported'));
+    };
+
+    if (mode !== 'idle') {
+        const ready = pin.length >= AppLock.MIN_PIN_LENGTH && (mode === 'disable' || confirmPin.length >= AppLock.MIN_PIN_LENGTH);
+        return (
+            <div className="p-4 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 space-y-3">
+                <p className="text-sm font-medium">{t(mode === 'enable' ? 'lock.choosePin' : 'lock.enterPinToDisable')}</p>
+                <PinInput value={pin} onChange={setPin} placeholder={t('lock.pinPlaceholder')} autoFocus />
+                {mode === 'enable' && (
+                    <>
+                        <PinInput value={confirmPin} onChange={setConfirmPin} placeholder={t('lock.confirmPlaceholder')} />
+                        <p className="text-xs text-gray-400">{t('lock.forgetWarning')}</p>
+                    </>
+                )}
+                {error && <p className="text-xs text-red-500">{error}</p>}
+                <Button onClick={submit} disabled={!ready || busy}>
+                    {t(mode === 'enable' ? 'lock.turnOn' : 'lock.turnOff')}
+                </Button>
+                <Button variant="ghost" onClick={close} className="!h-10 !text-sm">{t('common.cancel')}</Button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <SettingToggle
+                icon={lock.enabled ? 'lock' : 'lock_open'}
+                title={t('lock.toggle')}
+                hint={t('lock.hint')}
+                checked={lock.enabled}
+                onToggle={() => setMode(lock.enabled ? 'disable' : 'enable')}
+            />
+            {lock.enabled && biometricAvailable && (
+                <SettingToggle
+                    icon="fingerprint"
+                    title={t('lock.biometric')}
+                    hint={t('lock.biometricHint')}
+                    checked={biometric}
+                    onToggle={toggleBiometric}
+                />
+            )}
+            {lock.enabled && (
+                <Button variant="secondary" onClick={lock.lockNow}>
+                    <span className="material-symbols-outlined">lock</span> {t('lock.lockNow')}
+                </Button>
+            )}
+            {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+    );
+};
+
+const PERMISSION_LABELS: Record<Notifications.NotificationAccess, MessageKey> = {
+    granted: 'settings.permission.granted',
+    denied: 'settings.permission.denied',
+    default: 'settings.permission.default',
+    unsupported: 'settings.permission.unsupported',
+};
+
+const CHECK_IN_MODE_LABELS: Record<CheckInMode, MessageKey> = {
+    off: 'checkIn.mode.off',
+    quarters: 'checkIn.mode.quarters',
+    interval: 'checkIn.mode.interval',
+};
+
+const SettingsScreen: React.FC<{
+    onDataChanged: () => void
+}> = ({ onDataChanged }) => {
+    const navigate = useNavigate();
+    const repository = useRepository();
+    const { locale, setLocale, t } = useI18n();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const preferences = usePreferences();
+    const [permission, setPermission] = useState(Notifications.getPermission);
+    const [report, setReport] = useState<Backup.ImportReport | null>(null);
+    const [quarantined, setQuarantined] = useState<QuarantinedEntry[]>([]);
+
+    useEffect(() => {
+        repository.getQuarantine().then(setQuarantined);
+    }, [repository]);
+
+    const dateStamp = () => new Date().toISOString().slice(0, 10);
+
+    const exportJson = async () => {
+        const backup = await Backup.createBackup(repository);
+        Backup.downloadFile(`secondthought-${dateStamp()}.json`, JSON.stringify(backup, null, 2), 'application/json');
+    };
+
+    const exportCsv = async () => {
+        const categories = await repository.getCategories();
+        const csv = Backup.historyToCsv(await repository.getHistory(), id => categoryName(resolveCategory(categories, id), t));
+        Backup.downloadFile(`secondthought-journal-${dateStamp()}.csv`, csv, 'text/csv');
+    };
+
+    const exportCalendar = async () => {
+        const categories = await repository.getCategories();
+        const pending = Calendar.pendingDecisions(await repository.getActiveDecisions(), Date.now());
+        const ics = Calendar.decisionsToCalendar(pending, id => categoryName(resolveCategory(categories, id), t), appUrl());
+        Backup.downloadFile(`secondthought-reminders-${dateStamp()}.ics`, ics, 'text/calendar');
+    };
+
+    const exportQuarantine = () => {
+        Backup.downloadFile(`secondthought-quarantine-${dateStamp()}.json`, JSON.stringify(quarantined, null, 2), 'application/json');
+    };
+
+    const discardQuarantine = async () => {
+        await repository.clearQuarantine();
+        setQuarantined([]);
+    };
+
+    const toggleNotifications = async () => {
+        const enabled = !preferences.notifications.enabled;
+        if (enabled) {
+            // Stays off unless the browser lets us notify
+            const access = await Notifications.askPermission();
+            setPermission(access);
+            if (access !== 'granted') return;
+        }
+        updatePreferences({ notifications: { enabled } });
+
+        // Bring the service worker in line with the new choice for decisions already waiting
+        const active = await repository.getActiveDecisions();
+        active.forEach(d => enabled ? Notifications.scheduleAlarm(d) : Notifications.cancelAlarm(d.id));
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const { document, errors } = Backup.parseBackup(await file.text());
+        if (!document) {
+            setReport({ added: 0, skipped: 0, errors });
+            return;
+        }
+        setReport({ ...(await Backup.importBackup(repository, document)), errors });
+        onDataChanged();
+    };
+
+    return (
+        <Layout>
+            <Header onBack={() => navigate('/')} title={t('settings.title')} />
+            <motion.div
+                initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
+                className="flex-1 flex flex-col px-6 pb-8 overflow-y-auto"
+            >
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-4 mb-3">{t('settings.language')}</h3>
+                <div className="flex gap-2">
+                    {LOCALES.map(option => (
+                        <FilterChip key={option} active={locale === option} onClick={() => setLocale(option)}>
+                            {t(`settings.language.${option}`)}
+                        </FilterChip>
+                    ))}
+                </div>
+
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-8 mb-3">{t('settings.theme')}</h3>
+                <div className="flex gap-2">
+                    {THEMES.map(option => (
+                        <FilterChip key={option} active={preferences.theme === option} onClick={() => updatePreferences({ theme: option })}>
+                            {t(THEME_META[option].labelKey)}
+                        </FilterChip>
+                    ))}
+                </div>
+
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-8 mb-3">{t('settings.notifications')}</h3>
+                <SettingToggle
+                    icon={preferences.notifications.enabled ? 'notifications_active' : 'notifications_off'}
+                    title={t('settings.notificationsToggle')}
+                    hint={t('settings.notificationsHint')}
+                    checked={preferences.notifications.enabled}
+                    onToggle={toggleNotifications}
+                />
+                {preferences.notifications.enabled && (
+                    <div className="flex items-center justify-between gap-3 mt-3 text-xs text-gray-400">
+                        <p>{t(PERMISSION_LABELS[permission])}</p>
+                        {permission === 'default' && (
+                            <button onClick={async () => setPermission(await Notifications.requestPermission())} className="flex-shrink-0 font-bold text-primary">
+                                {t('notificationBanner.enable')}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-8 mb-3">{t('lock.title')}</h3>
+                <AppLockPanel />
+
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-8 mb-3">{t('alarm.title')}</h3>
+                <AlarmSettingsPanel />
+
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-8 mb-3">{t('settings.durations')}</h3>
+                <p className="text-sm font-medium mb-2">{t('settings.minDuration')}</p>
+                <div className="flex flex-wrap gap-2">
+                    {MIN_DURATION_OPTIONS.map(minutes => (
+                        <FilterChip key={minutes} active={preferences.durations.minMinutes === minutes} onClick={() => updatePreferences({ durations: { ...preferences.durations, minMinutes: minutes } })}>
+                            {formatDuration(locale, minutes)}
+                        </FilterChip>
+                    ))}
+                </div>
+                <p className="text-sm font-medium mt-4 mb-2">{t('settings.maxDuration')}</p>
+                <div className="flex flex-wrap gap-2">
+                    {MAX_DURATION_OPTIONS.map(minutes => (
+                        <FilterChip key={minutes} active={preferences.durations.maxMinutes === minutes} onClick={() => updatePreferences({ durations: { ...preferences.durations, maxMinutes: minutes } })}>
+                            {formatDuration(locale, minutes)}
+                        </FilterChip>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-3">{t('settings.durationsHint')}</p>
+
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-8 mb-3">{t('checkIn.settingsTitle')}</h3>
+                <div className="flex gap-2 overflow-x-auto">
+                    {CHECK_IN_MODES.map(mode => (
+                        <FilterChip key={mode} active={preferences.checkIns.mode === mode} onClick={() => updatePreferences({ checkIns: { ...preferences.checkIns, mode } })}>
+                            {t(CHECK_IN_MODE_LABELS[mode])}
+                        </FilterChip>
+                    ))}
+                </div>
+                {preferences.checkIns.mode === 'interval' && (
+                    <>
+                        <p className="text-sm font-medium mt-4 mb-2">{t('checkIn.every')}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {CHECK_IN_INTERVAL_OPTIONS.map(hours => (
+                                <FilterChip key={hours} active={preferences.checkIns.intervalHours === hours} onClick={() => updatePreferences({ checkIns: { ...preferences.checkIns, intervalHours: hours } })}>
+                                    {formatDuration(locale, hours * 60)}
+                                </FilterChip>
+                            ))}
+                        </div>
+                    </>
+                )}
+                <p className="text-xs text-gray-400 mt-3">{t('checkIn.settingsHint')}</p>
+
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-8 mb-3">{t('settings.emergency')}</h3>
+                <div className="flex gap-2 overflow-x-auto">
+                    {EMERGENCY_FRICTIONS.map(option => (
+                        <FilterChip key={option} active={preferences.emergencyFriction === option} onClick={() => updatePreferences({ emergencyFriction: option })}>
+                            {t(FRICTION_LABELS[option])}
+                        </FilterChip>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-3">{t('settings.emergencyHint')}</p>
+
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-8 mb-3">{t('categories.title')}</h3>
+                <Button variant="secondary" onClick={() => navigate('/categories')}>
+                    <span className="material-symbols-outlined">category</span> {t('type.manage')}
+                </Button>
+
+                <h3 className="text-xs font-semibold tracking-widest text-gray-400 uppercase mt-8 mb-3">{t('settings.data')}</h3>
+                <div className="space-y-3">
+                    <Button variant="secondary" onClick={exportJson}>
+                        <span className="material-symbols-outlined">download</span> {t('settings.exportJson')}
+                    </Button>
+                    <Button variant="secondary" onClick={exportCsv}>
+                        <span className="material-symbols-outlined">table_view</span> {t('settings.exportCsv')}
+                    </Button>
+                    <Button variant="secondary" onClick={exportCalendar}>
+                        <span className="material-symbols-outlined">event</span> {t('calendar.exportPending')}
+                    </Button>
+                    <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+                        <span className="material-symbols-outlined">upload</span> {t('settings.import')}
+                    </Button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                </div>
+                <p className="text-xs text-gray-400 mt-3">{t('settings.importHint')}</p>
+                <Button variant="ghost" onClick={resetPreferences} className="mt-2 !text-sm">
+                    <span className="material-symbols-outlined text-lg">restart_alt</span> {t('settings.resetPreferences')}
+                </Button>
+
+                {quarantined.length > 0 && (
+                    <div className="mt-6 p-4 rounded-2xl bg-yellow-50 dark:bg-yellow-900/20">
+                        <div className="flex items-center gap-2 mb-1 text-yellow-700 dark:text-yellow-400">
+                            <span className="material-symbols-outlined text-lg">warning</span>
+                            <p className="font-bold text-sm">{t('settings.quarantineTitle', { count: quarantined.length })}</p>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">{t('settings.quarantineDesc')}</p>
+                        <div className="flex gap-3">
+                            <button onClick={exportQuarantine} className="text-xs font-bold text-yellow-700 dark:text-yellow-400 underline underline-offset-4">{t('settings.download')}</button>
+                            <button onClick={discardQuarantine} className="text-xs font-bold text-rose-500 underline underline-offset-4">{t('settings.delete')}</button>
+                        </div>
+                    </div>
+                )}
+
+                {report && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="mt-6 p-4 rounded-2xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-gray-800 shadow-sm"
+                    >
+                        <p className="font-bold mb-1">{t('settings.importResult')}</p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.importSummary', { added: report.added, skipped: report.skipped })}</p>
+                        {report.errors.length > 0 && (
+                            <div className="mt-3 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-500 text-xs space-y-1 max-h-40 overflow-y-auto">
+                                <p className="font-bold">{t('settings.importSkipped', { count: report.errors.length })}</p>
+                                {report.errors.map((error, idx) => <p key={idx}>{error}</p>)}
+                            </div>
+                        )}
+                    </motion.div>
+                )}
+            </motion.div>
+        </Layout>
+    );
+};
+
+const CategoriesScreen: React.FC = () => {
+    const navigate = useNavigate();
+    const repository = useRepository();
+    const { t } = useI18n();
+    const [categories, setCategories] = useState<Category[]>([]);
+
+    useEffect(() => {
+        repository.getCategories().then(setCategories);
+    }, [repository]);
+
+    const update = async (next: Category[]) => {
+        setCategories(next);
+        await repository.saveCategories(next);
+    };
+
+    const toggleArchived = (id: string) =>
+        update(categories.map(c => (c.id === id ? { ...c, archived: !c.archived } : c)));
+
+    // The picker must always offer at least one category
+    const activeCount = categories.filter(c => !c.archived).length;
+    const iconButton = "flex size-9 items-center justify-center rounded-full text-gray-500 dark:text-gray-400 hover:bg-black/5 dark:hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none";
+
+    return (
+        <Layout>
+            <Header onBack={() => navigate(-1)} title={t('categories.title')} />
+            <motion.div
+                initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
+                className="flex-1 flex flex-col px-6 pb-8 overflow-y-auto"
+            >
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-2 mb-4">{t('categories.subtitle')}</p>
+                <div className="space-y-3">
+                    {categories.map((category, idx) => (
+                        <div
+                            key={category.id}
+                            className={`flex items-center gap-2 p-3 rounded-3xl bg-white dark:bg-surface-dark shadow-sm border border-gray-100 dark:border-gray-800 ${category.archived ? 'opacity-60' : ''}`}
+                        >
+                            <button onClick={() => navigate(`/categories/${category.id}`)} className="flex-1 min-w-0 flex items-center gap-3 text-left">
+                                <div className={`flex-shrink-0 size-10 rounded-full flex items-center justify-center ${CATEGORY_COLOR_CLASSES[category.color]}`}>
+                                    <span className="material-symbols-outlined text-xl">{category.icon}</span>
+                                </div>
+                                <div className="min-w-0">
+                                    <p className="font-bold truncate">{categoryName(category, t)}</p>
+                                    {category.archived && <p className="text-xs text-gray-400">{t('categories.archived')}</p>}
+                                </div>
+                            </button>
+                            <button onClick={() => update(moveCategory(categories, category.id, -1))} disabled={idx === 0} className={iconButton} aria-label={t('categories.moveUp')}>
+                                <span className="material-symbols-outlined text-xl">arrow_upward</span>
+                            </button>
+                            <button onClick={() => update(moveCategory(categories, category.id, 1))} disabled={idx === categories.length - 1} className={iconButton} aria-label={t('categories.moveDown')}>
+                                <span className="material-symbols-outlined text-xl">arrow_downward</span>
+                            </button>
+                            <button
+                                onClick={() => toggleArchived(category.id)}
+                                disabled={!category.archived && activeCount <= 1}
+                                className={iconButton}
+                                aria-label={category.archived ? t('categories.unarchive') : t('categories.archive')}
+                            >
+                                <span className="material-symbols-outlined text-xl">{category.archived ? 'unarchive' : 'archive'}</span>
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mt-auto pt-8">
+                    <Button onClick={() => navigate('/categories/new')}>
+                        <span className="material-symbols-outlined">add</span> {t('categories.new')}
+                    </Button>
+                </div>
+            </motion.div>
+        </Layout>
+    );
+};
+
+const CategoryEditorScreen: React.FC = () => {
+    const navigate = useNavigate();
+    const repository = useRepository();
+    const { id } = useParams<{ id: string }>();
+    const { t, locale } = useI18n();
+    const categories = useCategories();
+    const [category, setCategory] = useState<Category | null>(null);
+    const [name, setName] = useState('');
+    const [questions, setQuestions] = useState<ReflectionQuestion[]>([]);
+
+    // Start from the stored category, or a fresh one for /categories/new
+    useEffect(() => {
+        if (!categories || category) return;
+        const existing = categories.find(c => c.id === id);
+        const initial = existing ?? createCategory(categories);
+        setCategory(initial);
+        setName(existing ? categoryName(existing, t) : '');
+        setQuestions(categoryQuestions(initial, t));
+    }, [categories, category, id, t]);
+
+    if (categories && id !== 'new' && !categories.some(c => c.id === id)) return <Navigate to="/categories" replace />;
+    if (!category) return null;
+
+    const handleSave = async () => {
+        const trimmed = name.trim();
+        // An untouched built-in name is stored empty so it keeps following the UI language
+        const isDefaultName = isBuiltInCategory(category.id) && trimmed === t(BUILT_IN_LABELS[category.id]);
+        // Same for questions: unchanged defaults stay unset
+        const kept = questions.map(q => ({ ...q, prompt: q.prompt.trim() })).filter(q => q.prompt);
+        const defaults = categoryQuestions({ ...category, reflectionQuestions: undefined }, t);
+        const isDefaultQuestions = kept.length === defaults.length
+            && kept.every((q, idx) => q.id === defaults[idx].id && q.kind === defaults[idx].kind && q.prompt === defaults[idx].prompt);
+
+        await repository.saveCategories([{
+            ...category,
+            name: isDefaultName ? '' : trimmed,
+            reflectionQuestions: isDefaultQuestions ? undefined : kept,
+        }]);
+        navigate('/categories', { replace: true });
+    };
+
+    return (
+        <Layout>
+            <Header onBack={() => navigate('/categories')} title={id === 'new' ? t('categories.new') : t('categories.edit')} />
+            <motion.div
+                initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
+                className="flex-1 flex flex-col px-6 pb-8 overflow-y-auto"
+            >
+                <div className="flex flex-col items-center gap-3 my-6">
+                    <div className={`flex size-20 items-center justify-center rounded-full ${CATEGORY_COLOR_CLASSES[category.color]}`}>
+                        <span className="material-symbols-outlined text-[40px]">{category.icon}</span>
+                    </div>
+                    <p className="font-bold text-lg">{name.trim() || t('category.unnamed')}</p>
+                </div>
+
+                <label className="block text-xs font-semibold tracking-widest text-gray-400 uppercase mb-2">{t('categories.name')}</label>
+                <input
+                    autoFocus={id === 'new'}
+                    value={name}
+                    maxLength={40}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={t('categories.namePlaceholder')}
+                    className="w-full p-4 rounded-2xl bg-gray-50 dark:bg-[#1a2c1b] font-bold text-lg outline-none focus:ring-2 focus:ring-primary/50"
+                />
+
+                <label className="block text-xs font-semibold tracking-widest text-gray-400 uppercase mt-6 mb-2">{t('categories.icon')}</label>
+                <div className="grid grid-cols-6 gap-2">
+                    {CATEGORY_ICONS.map(icon => (
+                        <button
+                            key={icon}
+                            onClick={() => setCategory({ ...category, icon })}
+                            className={`aspect-square flex items-center justify-center rounded-2xl transition-colors ${category.icon === icon ? 'bg-primary text-white' : 'bg-white dark:bg-surface-dark text-gray-500 dark:text-gray-400'}`}
+                        >
+                            <span className="material-symbols-outlined">{icon}</span>
+                        </button>
+                    ))}
+                </div>
+
+                <label className="block text-xs font-semibold tracking-widest text-gray-400 uppercase mt-6 mb-2">{t('categories.color')}</label>
+                <div className="flex flex-wrap gap-3">
+                    {CATEGORY_COLORS.map(color => (
+                        <button
+                            key={color}
+                            onClick={() => setCategory({ ...category, color })}
+                            aria-label={color}
+                            className={`size-10 rounded-full flex items-center justify-center ${CATEGORY_COLOR_CLASSES[color]} ${category.color === color ? 'ring-2 ring-offset-2 ring-primary dark:ring-offset-background-dark' : ''}`}
+                        >
+                            {category.color === color && <span className="material-symbols-outlined text-lg">check</span>}
+                        </button>
+                    ))}
+                </div>
+
+                <label className="block text-xs font-semibold tracking-widest text-gray-400 uppercase mt-6 mb-2">{t('categories.defaultDuration')}</label>
+                <div className="flex gap-2 overflow-x-auto py-1">
+                    <FilterChip active={category.defaultDurationMinutes === undefined} onClick={() => setCategory({ ...category, defaultDurationMinutes: undefined })}>
+                        {t('categories.none')}
+                    </FilterChip>
+                    {CATEGORY_DURATION_OPTIONS.filter(minutes => minutes >= (category.minDurationMinutes ?? 0)).map(minutes => (
+                        <FilterChip key={minutes} active={category.defaultDurationMinutes === minutes} onClick={() => setCategory({ ...category, defaultDurationMinutes: minutes })}>
+                            {formatDuration(locale, minutes)}
+                        </FilterChip>
+                    ))}
+                </div>
+
+                <label className="block text-xs font-semibold tracking-widest text-gray-400 uppercase mt-6 mb-2">{t('categories.minDuration')}</label>
+                <div className="flex gap-2 overflow-x-auto py-1">
+                    <FilterChip active={category.minDurationMinutes === undefined} onClick={() => setCategory({ ...category, minDurationMinutes: undefined })}>
+                        {t('categories.none')}
+                    </FilterChip>
+                    {CATEGORY_DURATION_OPTIONS.map(minutes => (
+                        <FilterChip
+                            key={minutes}
+                            active={category.minDurationMinutes === minutes}
+                            onClick={() => setCategory({
+                                ...category,
+                                minDurationMinutes: minutes,
+                                // Keep the recommendation reachable
+                                defaultDurationMinutes: category.defaultDurationMinutes !== undefined ? Math.max(category.defaultDurationMinutes, minutes) : undefined,
+                            })}
+                        >
+                            {formatDuration(locale, minutes)}
+                        </FilterChip>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">{t('categories.minDurationHint')}</p>
+
+                <label className="block text-xs font-semibold tracking-widest text-gray-400 uppercase mt-6 mb-2">{t('categories.questions')}</label>
+                <div className="space-y-2">
+                    {questions.map((question, idx) => (
+                        <div key={question.id} className="flex items-start gap-2">
+                            <div className="flex-1 flex flex-col gap-1">
+                                <input
+                                    value={question.prompt}
+                                    onChange={(e) => setQuestions(prev => prev.map((q, i) => (i === idx ? { ...q, prompt: e.target.value } : q)))}
+                                    placeholder={t('categories.questionPlaceholder')}
+                                    className="w-full p-3 rounded-2xl bg-gray-50 dark:bg-[#1a2c1b] outline-none focus:ring-2 focus:ring-primary/50"
+                                />
+                                <select
+                                    value={question.kind}
+                                    onChange={(e) => setQuestions(prev => prev.map((q, i) => (i === idx ? { ...q, kind: e.target.value as QuestionKind } : q)))}
+                                    className="self-start px-3 py-1 rounded-full bg-transparent text-xs font-bold text-gray-500 dark:text-gray-400 outline-none"
+                                >
+                                    {QUESTION_KINDS.map(kind => <option key={kind} value={kind}>{t(QUESTION_KIND_LABELS[kind])}</option>)}
+                                </select>
+                            </div>
+                            <button
+                                onClick={() => setQuestions(prev => prev.filter((_, i) => i !== idx))}
+                                aria-label={t('categories.removeQuestion')}
+                                className="flex size-9 items-center justify-center rounded-full text-gray-400 hover:text-rose-500 hover:bg-black/5 dark:hover:bg-white/10"
+                            >
+                                <span className="material-symbols-outlined text-xl">close</span>
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={() => setQuestions(prev => [...prev, { id: crypto.randomUUID(), kind: 'text', prompt: '' }])}
+                    className="self-start mt-3 mb-8 flex items-center gap-1 text-sm font-bold text-primary"
+                >
+                    <span className="material-symbols-outlined text-lg">add</span> {t('categories.addQuestion')}
+                </button>
+
+                <div className="mt-auto">
+                    <Button onClick={handleSave} disabled={!name.trim()}>
+                        {t('common.save')}
+                    </Button>
+                </div>
+            </motion.div>
+        </Layout>
+    );
+};
+
+// --- App Lock ---
+
+const PinInput: React.FC<{
+    value: string;
+    onChange: (value: string) => void;
+    onSubmit?: () => void;
+    placeholder: string;
+    autoFocus?: boolean;
+    disabled?: boolean;
+}> = ({ value, onChange, onSubmit, placeholder, autoFocus, disabled }) => (
+    <input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        autoFocus={autoFocus}
+        disabled={disabled}
+        maxLength={AppLock.MAX_PIN_LENGTH}
+        value={value}
+        onChange={(e) => onChange(e.target.value.replace(/\D/g, ''))}
+        onKeyDown={(e) => e.key === 'Enter' && onSubmit?.()}
+        placeholder={placeholder}
+        className="w-full p-4 rounded-2xl bg-gray-50 dark:bg-black/20 text-center text-2xl font-bold tracking-[0.5em] outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+    />
+);
+
+const LockScreen: React.FC<{ onUnlock: (key: CryptoKey) => void }> = ({ onUnlock }) => {
+    const { t } = useI18n();
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [lockedUntil, setLockedUntil] = useState(AppLock.getLockout);
+    const [now, setNow] = useState(Date.now);
+    const [biometric, setBiometric] = useState(false);
+
+    useEffect(() => {
+        if (AppLock.hasBiometricUnlock()) AppLock.isBiometricAvailable().then(setBiometric);
+    }, []);
+
+    // Count the lockout down, then let the user try again
+    useEffect(() => {
+        if (!lockedUntil) return;
+        const timer = setInterval(() => {
+            setNow(Date.now());
+            if (Date.now() >= lockedUntil) setLockedUntil(null);
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [lockedUntil]);
+
+    const submit = async () => {
+        if (pin.length < AppLock.MIN_PIN_LENGTH || busy || lockedUntil) return;
+        setBusy(true);
+        const result = await AppLock.unlockWithPin(pin);
+        setBusy(false);
+        setPin('');
+        if (result.key) {
+            onUnlock(result.key);
+            return;
+        }
+        setNow(Date.now());
+        setLockedUntil(result.lockedUntil);
+        setError(result.lockedUntil ? null : t('lock.wrongPin', { count: result.attemptsLeft }));
+    };
+
+    const unlockWithBiometric = async () => {
+        const key = await AppLock.unlockWithBiometric();
+        if (key) onUnlock(key);
+        else setError(t('lock.biometricFailed'));
+    };
+
+    return (
+        <Layout>
+            <motion.div
+                initial="initial" animate="in" exit="out" variants={pageVariants} transition={pageTransition}
+                className="flex-1 flex flex-col items-center justify-center px-8 text-center"
+            >
+                <div className="size-20 rounded-full bg-primary/10 text-primary flex items-center justify-center mb-6">
+                    <span className="material-symbols-outlined text-4xl">lock</span>
+                </div>
+                <h1 className="text-2xl font-bold mb-2">{t('lock.screenTitle')}</h1>
+                <p className="text-gray-500 dark:text-gray-400 mb-8">{t('lock.screenSubtitle')}</p>
+
+                <PinInput value={pin} onChange={setPin} onSubmit={submit} placeholder={t('lock.pinPlaceholder')} autoFocus disabled={!!lockedUntil} />
+                <p className="h-5 mt-3 text-sm text-red-500">
+                    {lockedUntil ? t('lock.lockedOut', { time: formatClock(Math.max(0, lockedUntil - now)) }) : error}
+                </p>
+
+                <div className="w-full mt-4 space-y-3">
+                    <Button onClick={submit} disabled={pin.length < AppLock.MIN_PIN_LENGTH || busy || !!lockedUntil}>
+                        {t('lock.unlock')}
+                    </Button>
+                    {biometric && (
+                        <Button variant="secondary" onClick={unlockWithBiometric}>
+                            <span className="material-symbols-outlined">fingerprint</span> {t('lock.useBiometric')}
+                        </Button>
+                    )}
+                </div>
+            </motion.div>
+        </Layout>
+    );
+};
+
+// --- Main App Logic ---
+
+// Reloads and deep links into the flow land on the first step the draft hasn't completed
+const DraftStepRoute: React.FC<{
+    draft: Decision,
+    step: DraftStep,
+    children: React.ReactElement
+}> = ({ draft, step, children }) => {
+    const bounds = useDurationBounds(draft.categoryId);
+    return canEnterStep(draft, step, bounds) ? children : <Navigate to={firstIncompleteStep(draft, bounds)} replace />;
+};
+
+// Resolves the `:id` route param against the in-flight decisions
+const ActiveDecisionRoute: React.FC<{
+    decisions: Decision[],
+    children: (decision: Decision) => React.ReactElement
+}> = ({ decisions, children }) => {
+    const { id } = useParams<{ id: string }>();
+    const decision = decisions.find(d => d.id === id);
+    return decision ? children(decision) : <Navigate to="/" />;
+};
+
+const AnimatedRoutes: React.FC<{
+    activeDecisions: Decision[],
+    setDraftDecision: React.Dispatch<React.SetStateAction<Decision>>,
+    draftDecision: Decision,
+    startWaiting: (d: Decision) => Promise<void>,
+    handleFinish: (id: string, s: DecisionStatus, note?: string, resultAnswers?: ReflectionAnswer[], message?: MessageDraft) => Promise<void>,
+    handleSnooze: (id: string, minutes: number, note?: string, resultAnswers?: ReflectionAnswer[]) => Promise<void>,
+    handleEmergency: (id: string, reason?: string) => Promise<void>,
+    handleBreathingCycle: (id: string, seconds: number) => Promise<void>,
+    handleCheckIn: (id: string, scheduledAt: number, strength: number) => Promise<void>,
+    reloadDecisions: () => Promise<void>
+}> = ({ activeDecisions, setDraftDecision, draftDecision, startWaiting, handleFinish, handleSnooze, handleEmergency, handleBreathingCycle, handleCheckIn, reloadDecisions }) => {
+    const discardDraft = () => setDraftDecision(createDraftDecision());
+
+    const location = useLocation();
+    const navigate = useNavigate();
+
+    return (
+        <AnimatePresence mode="wait">
+            <div key={location.pathname} className="w-full h-full">
+                <Routes location={location}>
+                    <Route path="/" element={
+                        activeDecisions.length > 0 ? <Navigate to="/dashboard" /> : <LandingScreen draft={draftDecision} onDiscardDraft={discardDraft} />
+                    } />
+                    <Route path="/landing" element={<LandingScreen activeCount={activeDecisions.length} draft={draftDecision} onDiscardDraft={discardDraft} />} />
+                    <Route path="/dashboard" element={
+                        activeDecisions.length > 0 ? <DashboardScreen decisions={activeDecisions} /> : <Navigate to="/" />
+                    } />
+
+                    <Route path="/how-it-works" element={<HowItWorksScreen />} />
+                    <Route path="/journal" element={<JournalScreen />} />
+                    <Route path="/journal/:id" element={<JournalDetailScreen />} />
+                    <Route path="/insights" element={<InsightsScreen />} />
+                    <Route path="/wishlist" element={<WishlistScreen />} />
+                    <Route path="/settings" element={<SettingsScreen onDataChanged={reloadDecisions} />} />
+                    <Route path="/categories" element={<CategoriesScreen />} />
+                    <Route path="/categories/:id" element={<CategoryEditorScreen />} />
+                    <Route path="/type" element={<DecisionTypeScreen setDraft={setDraftDecision} />} />
+                    <Route path="/input" element={
+                        <DraftStepRoute draft={draftDecision} step="/input">
+                            <DecisionInputScreen draft={draftDecision} setDraft={setDraftDecision} />
+                        </DraftStepRoute>
+                    } />
+                    <Route path="/delay" element={
+                        <DraftStepRoute draft={draftDecision} step="/delay">
+                            <DelaySelectionScreen draft={draftDecision} setDraft={setDraftDecision} />
+                        </DraftStepRoute>
+                    } />
+                    <Route path="/reflection" element={
+                        <DraftStepRoute draft={draftDecision} step="/reflection">
+                            <ReflectionScreen draft={draftDecision} setDraft={setDraftDecision} startWaiting={startWaiting} />
+                        </DraftStepRoute>
+                    } />
+
+                    <Route path="/waiting/:id" element={
+                        <ActiveDecisionRoute decisions={activeDecisions}>
+                            {decision => (
+                                <WaitingScreen
+                                    decision={decision}
+                                    onComplete={() => navigate(`/result/${decision.id}`, { replace: true })}
+                                    onEmergency={(reason) => handleEmergency(decision.id, reason)}
+                                    onBreathingCycle={(seconds) => handleBreathingCycle(decision.id, seconds)}
+                                    onCheckIn={(scheduledAt, strength) => handleCheckIn(decision.id, scheduledAt, strength)}
+                                />
+                            )}
+                        </ActiveDecisionRoute>
+                    } />
+
+                    <Route path="/result/:id" element={
+                        <ActiveDecisionRoute decisions={activeDecisions}>
+                            {decision => decision.endTime > Date.now() ? (
+                                // A direct link mid-wait would end the pause without the emergency skip's friction
+                                <Navigate to={`/waiting/${decision.id}`} replace />
+                            ) : (
+                                <ResultScreen
+                                    onFinish={(status, note, resultAnswers, message) => handleFinish(decision.id, status, note, resultAnswers, message)}
+                                    onSnooze={async (minutes, note, resultAnswers) => {
+                                        await handleSnooze(decision.id, minutes, note, resultAnswers);
+                                        navigate(`/waiting/${decision.id}`, { replace: true });
+                                    }}
+                                    decision={decision}
+                                />
+                            )}
+                        </ActiveDecisionRoute>
+                    } />
+                </Routes>
+            </div>
+        </AnimatePresence>
+    );
+};
+
+// Everything behind the app lock; remounted with the decrypting repository after unlocking
+const UnlockedApp: React.FC = () => {
+    const repository = useRepository();
+    const [activeDecisions, setActiveDecisions] = useState<Decision[]>([]);
+    const [draftDecision, setDraftDecision] = useState<Decision>(createDraftDecision());
+    const [isLoading, setIsLoading] = useState(true);
+
+    const reloadDecisions = useCallback(async () => {
+        setActiveDecisions(await repository.getActiveDecisions());
+    }, [repository]);
+
+    // Initialize from storage
+    useEffect(() => {
+        repository.getDraft()
+            .then(draft => { if (draft) setDraftDecision(draft); })
+            .then(reloadDecisions)
+            .then(() => repository.getActiveDecisions())
+            // Re-arm background alarms in case the service worker lost them
+            .then(decisions => decisions.filter(d => d.endTime > Date.now()).forEach(Notifications.scheduleAlarm))
+            .catch(e => console.error("Failed to load decisions", e))
+            .finally(() => setIsLoading(false));
+    }, [repository, reloadDecisions]);
+
+    // Keep the draft stored as the user moves through the flow so a reload can resume it
+    useEffect(() => {
+        if (isLoading) return;
+        const timer = setTimeout(() => {
+            repository.saveDraft(draftDecision).catch(e => console.error("Failed to save draft", e));
+        }, DRAFT_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [repository, draftDecision, isLoading]);
+
+    const startWaiting = useCallback(async (decision: Decision) => {
+        await repository.saveActiveDecision(decision);
+        // Cleared right away; otherwise a reload before the next autosave would offer it again
+        await repository.clearDraft();
+        Notifications.scheduleAlarm(decision);
+        await reloadDecisions();
+        setDraftDecision(createDraftDecision());
+    }, [repository, reloadDecisions]);
+
+    const handleFinish = useCallback(async (id: string, status: DecisionStatus, note?: string, resultAnswers?: ReflectionAnswer[], message?: MessageDraft) => {
+        const decision = await repository.getActiveDecision(id);
+        if (decision) {
+            await repository.archiveDecision({
+                ...decision,
+                status,
+                finalNote: note,
+                resultAnswers: resultAnswers ?? decision.resultAnswers,
+                message: message ?? decision.message,
+                resolvedAt: Date.now(),
+            });
+        }
+        Notifications.cancelAlarm(id);
+        await reloadDecisions();
+    }, [repository, reloadDecisions]);
+
+    const handleSnooze = useCallback(async (id: string, minutes: number, note?: string, resultAnswers?: ReflectionAnswer[]) => {
+        const decision = await repository.getActiveDecision(id);
+        if (!decision) return;
+
+        const now = Date.now();
+        const snoozed = {
+            ...decision,
+            status: DecisionStatus.SNOOZED,
+            startTime: now,
+            endTime: now + minutes * 60 * 1000,
+            checkInSchedule: planCheckIns(now, now + minutes * 60 * 1000, getPreferences().checkIns),
+            resultAnswers: resultAnswers ?? decision.resultAnswers,
+            snoozes: [...(decision.snoozes ?? []), { snoozedAt: now, durationMinutes: minutes, note }],
+        };
+        await repository.saveActiveDecision(snoozed);
+        Notifications.scheduleAlarm(snoozed);
+        await reloadDecisions();
+    }, [repository, reloadDecisions]);
+
+    const handleEmergency = useCallback(async (id: string, reason?: string) => {
+        const decision = await repository.getActiveDecision(id);
+        if (decision) {
+            await repository.saveActiveDecision(skipDecision(decision, Date.now(), reason));
+            // The user is already looking at the app, no need for a background alarm
+            Notifications.cancelAlarm(id);
+            await reloadDecisions();
+        }
+    }, [repository, reloadDecisions]);
+
+    const handleBreathingCycle = useCallback(async (id: string, seconds: number) => {
+        const decision = await repository.getActiveDecision(id);
+        if (!decision) return;
+
+        await repository.saveActiveDecision({
+            ...decision,
+            breathingCycles: (decision.breathingCycles ?? 0) + 1,
+            breathingSeconds: (decision.breathingSeconds ?? 0) + seconds,
+        });
+        await reloadDecisions();
+    }, [repository, reloadDecisions]);
+
+    const handleCheckIn = useCallback(async (id: string, scheduledAt: number, strength: number) => {
+        const decision = await repository.getActiveDecision(id);
+        if (!decision) return;
+
+        await repository.saveActiveDecision(recordCheckIn(decision, scheduledAt, strength, Date.now()));
+        await reloadDecisions();
+    }, [repository, reloadDecisions]);
+
+    if (isLoading) return <div className="h-screen w-full bg-background-light dark:bg-background-dark" />;
+
+    return (
+        <HashRouter>
+            <AnimatedRoutes
+                activeDecisions={activeDecisions}
+                setDraftDecision={setDraftDecision}
+                draftDecision={draftDecision}
+                startWaiting={startWaiting}
+                handleFinish={handleFinish}
+                handleSnooze={handleSnooze}
+                handleEmergency={handleEmergency}
+                handleBreathingCycle={handleBreathingCycle}
+                handleCheckIn={handleCheckIn}
+                reloadDecisions={reloadDecisions}
+            />
+        </HashRouter>
+    );
+};
+
+const App: React.FC = () => {
+    const storage = useRepository();
+    const [locale, setLocaleState] = useState<Locale>(getLocale);
+    const [lockEnabled, setLockEnabled] = useState(AppLock.isLockEnabled);
+    const [lockKey, setLockKey] = useState<CryptoKey | null>(null);
+
+    const i18n = useMemo<I18nContextValue>(() => ({
+        locale,
+        setLocale: (next) => {
+            setLocale(next);
+            setLocaleState(next);
+        },
+        t: (key, params) => translate(locale, key, params),
+    }), [locale]);
+
+    const repository = useMemo(
+        () => lockKey ? createEncryptedRepository(storage, lockKey) : storage,
+        [storage, lockKey]
+    );
+
+    // Lock again once the app has spent a while in the background
+    useEffect(() => {
+        if (!lockEnabled) return;
+        let hiddenAt: number | null = null;
+        const handleVisibility = () => {
+            if (document.hidden) hiddenAt = Date.now();
+            else if (hiddenAt !== null && Date.now() - hiddenAt > AppLock.RELOCK_AFTER_MS) setLockKey(null);
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => document.removeEventListener('visibilitychange', handleVisibility);
+    }, [lockEnabled]);
+
+    const appLock = useMemo<AppLockContextValue>(() => ({
+        enabled: lockEnabled,
+        enable: async (pin) => {
+            const key = await AppLock.enableLock(pin);
+            await resealStoredData(storage, key, 'seal');
+            setLockKey(key);
+            setLockEnabled(true);
+        },
+        disable: async (pin) => {
+            const result = await AppLock.unlockWithPin(pin);
+            if (result.key) {
+                // Decrypt everything first so an interrupted switch-off never strands sealed entries
+                await resealStoredData(storage, result.key, 'unseal');
+                AppLock.disableLock();
+                setLockKey(null);
+                setLockEnabled(false);
+            }
+            return result;
+        },
+        lockNow: () => setLockKey(null),
+        enrollBiometric: async () => !!lockKey && AppLock.enrollBiometric(lockKey),
+    }), [storage, lockEnabled, lockKey]);
+
+    return (
+        <I18nContext.Provider value={i18n}>
+            <AppLockContext.Provider value={appLock}>
+                {lockEnabled && !lockKey ? (
+                    <LockScreen onUnlock={setLockKey} />
+                ) : (
+                    <RepositoryContext.Provider value={repository}>
+                        <UnlockedApp />
+                    </RepositoryContext.Provider>
+                )}
+            </AppLockContext.Provider>
+        </I18nContext.Provider>
     );
 };
 
@@ -1,15 +1,31 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { RepositoryContext } from './services/repository';
+import { createIndexedDbRepository } from './services/indexedDbRepository';
+import { createMemoryRepository } from './services/memoryRepository';
+import { registerServiceWorker } from './services/notifications';
+// Applies the stored theme and keeps following it
+import './services/theme';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Fall back to a session-only store where IndexedDB is unavailable (e.g. some private modes)
+const repository = 'indexedDB' in window ? createIndexedDbRepository() : createMemoryRepository();
+
+// Only in production builds: a caching worker would serve stale modules to the dev server
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <RepositoryContext.Provider value={repository}>
+      <App />
+    </RepositoryContext.Provider>
   </React.StrictMode>
 );
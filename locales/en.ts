@@ -0,0 +1,419 @@
+import type { Catalog } from '../services/i18n';
+
+export const en: Catalog = {
+  'type.shopping': 'Buy something',
+  'type.message': 'Send a message',
+  'type.work': 'Work matter',
+  'type.feeling': 'Feelings',
+  'type.other': 'Other',
+  'type.title': 'What\'s this about?',
+  'type.subtitle': 'Don\'t worry, this is just for you.',
+  'type.manage': 'Manage categories',
+
+  'outcome.completed': 'Went ahead',
+  'outcome.cancelled': 'Let go',
+
+  'notificationBanner.testTitle': 'Notifications on!',
+  'notificationBanner.testBody': 'We\'ll let you know when the time is up.',
+  'notificationBanner.title': 'Turn on notifications?',
+  'notificationBanner.desc': 'So you know when the time is up.',
+  'notificationBanner.enable': 'Turn on',
+
+  'money.title': 'Money not spent',
+
+  'landing.imageAlt': 'Cloud illustration',
+  'landing.title': 'Need a moment to think?',
+  'landing.subtitle': 'SecondThought helps you pause before making important decisions.',
+  'landing.start': 'Start',
+  'landing.activeCount': { one: '{count} pause running', other: '{count} pauses running' },
+  'landing.howItWorks': 'How does it work?',
+
+  'journal.title': 'Decision Journal',
+  'journal.filterAll': 'All',
+  'journal.filterAllOutcomes': 'All outcomes',
+  'journal.empty': 'No decisions recorded yet.',
+  'journal.noMatch': 'No entries match these filters.',
+  'journal.snoozedCount': { one: 'Snoozed once', other: 'Snoozed {count}x' },
+  'journal.skipped': 'pause skipped',
+
+  'howItWorks.captureTitle': 'Catch the Impulse',
+  'howItWorks.captureDesc': 'Our brain has a \'Fast System\' that often leaves us with regrets. We help you hit the brakes first.',
+  'howItWorks.coolTitle': 'Cool Down',
+  'howItWorks.coolDesc': 'Wait for the timer to run out. Research shows momentary emotions fade after a few minutes.',
+  'howItWorks.decideTitle': 'Conscious Decision',
+  'howItWorks.decideDesc': 'Once calm, you can decide: go ahead, let go, or snooze again.',
+  'howItWorks.title': 'How It Works',
+  'howItWorks.quote': '"Our goal isn\'t to forbid anything, but to put you fully in control."',
+  'howItWorks.tryNow': 'Try It Now',
+
+  'common.step': 'Step {current} of {total}',
+  'common.next': 'Next',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.back': 'Back',
+  'common.done': 'Done',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+
+  'input.title': 'Tell us a little',
+  'input.subtitle': 'What\'s on your mind? Keep it short.',
+  'input.placeholder': 'E.g. About to check out new shoes at 11:30 PM',
+  'input.amountLabel': 'How much is it? (optional)',
+  'input.privacy': 'Relax, this stays between us.',
+
+  'picker.errorMax': 'The maximum duration is {max}.',
+  'picker.errorMin': 'The minimum duration is {min}.',
+  'picker.feedbackBreath': '{duration} is enough to steady your breathing.',
+  'picker.feedbackEmotion': '{duration} is good for letting a passing emotion settle.',
+  'picker.feedbackDaily': '{duration} is ideal for shopping or messaging decisions.',
+  'picker.feedbackBig': '{duration} suits big life decisions.',
+  'picker.title': 'Set Your Own Time',
+  'picker.unitMinutes': { one: 'Minute', other: 'Minutes' },
+  'picker.unitHours': { one: 'Hour', other: 'Hours' },
+  'picker.unitDays': { one: 'Day', other: 'Days' },
+  'picker.info': 'Tip:',
+
+  'delay.title': 'How long\nshould we pause?',
+  'delay.subtitle': 'Sometimes the best answer comes after a short pause.',
+  'delay.hourSub': 'Catch your breath',
+  'delay.tomorrow': 'Tomorrow morning',
+  'delay.tomorrowSub': 'Sleep on it',
+  'delay.daySub': 'Think it through',
+  'delay.quickSub': 'Just try it',
+  'delay.recommended': 'Recommended for {category}',
+  'delay.minimum': '{category} needs a pause of at least {duration}.',
+
+  'duration.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'duration.hours': { one: '{count} hour', other: '{count} hours' },
+  'duration.days': { one: '{count} day', other: '{count} days' },
+  'duration.seconds': { one: '{count} second', other: '{count} seconds' },
+
+  'reflection.title': 'Before you go on...',
+  'reflection.imageAlt': 'Calm',
+  'reflection.badge': 'Reflection',
+  'reflection.quote': '"Many impulsive decisions happen when we\'re tired or emotional."',
+  'reflection.question': 'If you hold off for a bit, what are you most afraid of?',
+  'reflection.placeholder': 'Write your answer here...',
+  'reflection.start': 'Start Timer',
+
+  'waiting.remaining': 'Time Left',
+  'waiting.title': 'Hold on a moment.',
+  'waiting.subtitle': 'The best decisions come from a calm mind.',
+  'waiting.endsAt': 'Ends at {time}',
+  'waiting.hours': 'Hours',
+  'waiting.minutes': 'Min',
+  'waiting.seconds': 'Sec',
+  'waiting.locked': 'Waiting...',
+  'waiting.emergency': 'I need this now (Emergency)',
+
+  'result.completed.title': 'Are you sure?',
+  'result.completed.desc': 'Okay, you made it through the wait. Write down why you still want to go ahead, as a reminder for later.',
+  'result.completed.placeholder': 'I decided to go ahead because...',
+  'result.completed.button': 'Go Ahead & Finish',
+  'result.cancelled.title': 'Great Call!',
+  'result.cancelled.desc': 'Holding back isn\'t easy. What changed your mind?',
+  'result.cancelled.placeholder': 'I called it off because I realised...',
+  'result.cancelled.button': 'Save & Finish',
+  'result.snoozed.title': 'Still unsure?',
+  'result.snoozed.desc': 'That\'s fine. Write down what\'s still bothering you.',
+  'result.snoozed.placeholder': 'I\'m still torn about...',
+  'result.snoozed.button': 'Put It Off',
+  'result.yourReason': 'your reasons',
+  'result.completed.appreciationTitle': 'Good Luck!',
+  'result.completed.appreciationBody': 'You decided to go ahead because of {reason}. Decisions made with a cool head are rarely wrong. Good luck!',
+  'result.cancelled.appreciationTitle': 'Self-Control Level Up!',
+  'result.cancelled.appreciationBody': 'Nice! You held back the impulse after realising {reason}. Your wallet and your mind will thank you.',
+  'result.snoozed.appreciationTitle': 'Take It Slow',
+  'result.snoozed.appreciationBody': 'It\'s okay to still be unsure about {reason}. Better to wait than to regret it. Take your time.',
+  'result.imageAlt': 'Calm leaves',
+  'result.intent': 'Your Original Intent',
+  'result.title': 'Time\'s Up!',
+  'result.question': 'So, what do you decide now?',
+  'result.choiceCompleted': 'Go ahead, I\'m sure',
+  'result.choiceCancelled': 'Never mind',
+  'result.choiceSnoozed': 'Put it off again',
+  'result.restart': 'Start Pause Again',
+  'result.checkinTitle': 'Time to check in again',
+  'result.checkinSubtitle': 'Answer the same questions again. We\'ll compare them with before the pause.',
+  'result.beforeAfter': 'Before vs after the pause',
+
+  'dashboard.title': 'Running Pauses',
+  'dashboard.expired': 'Time\'s Up',
+  'dashboard.new': 'New Pause',
+
+  'journalDetail.reflection': 'Reflection Before the Pause',
+  'journalDetail.finalNote': 'Final Note',
+  'journalDetail.title': 'Entry Details',
+  'journalDetail.noNote': 'No note.',
+  'journalDetail.snoozeRounds': { one: 'Snoozed once before deciding', other: 'Snoozed {count}x before deciding' },
+  'journalDetail.round': 'Round {number}',
+  'journalDetail.pausedFor': 'Paused for {duration}',
+  'journalDetail.skipped': 'Pause skipped',
+  'journalDetail.forfeited': '{duration} forfeited',
+  'journalDetail.breathing': { one: '{count} breathing cycle ({duration})', other: '{count} breathing cycles ({duration})' },
+  'journalDetail.fromWishlist': { one: 'From the wishlist · {count} day', other: 'From the wishlist · {count} days' },
+  'journalDetail.rechecks': { one: 'rechecked once', other: 'rechecked {count} times' },
+
+  'insights.title': 'Insights',
+  'insights.empty': 'No data for this period yet.',
+  'insights.resisted': 'Resisted',
+  'insights.recorded': 'Decisions recorded',
+  'insights.averagePause': 'Average pause',
+  'insights.emergency': 'Emergency exits',
+  'insights.byCategory': 'By category',
+  'insights.entries': { one: '{count} entry', other: '{count} entries' },
+  'insights.categorySummary': '{cancelled} cancelled · {completed} went ahead · avg {average} · emergency {emergency}',
+  'insights.heatmap': 'When impulses show up',
+  'insights.forfeited': { one: 'Skipped {count} time, forfeiting {duration} of waiting.', other: 'Skipped {count} times, forfeiting {duration} of waiting.' },
+
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.language.id': 'Bahasa Indonesia',
+  'settings.language.en': 'English',
+  'settings.data': 'Data',
+  'settings.exportJson': 'Export Backup (JSON)',
+  'settings.exportCsv': 'Export Journal (CSV)',
+  'settings.import': 'Import Backup',
+  'settings.importHint': 'Existing data is never overwritten or duplicated on import.',
+  'settings.quarantineTitle': { one: '{count} damaged record quarantined', other: '{count} damaged records quarantined' },
+  'settings.quarantineDesc': 'This data couldn\'t be read, so we keep it separately to keep the app running.',
+  'settings.download': 'Download',
+  'settings.delete': 'Delete',
+  'settings.importResult': 'Import Result',
+  'settings.importSummary': '{added} entries added, {skipped} already existed.',
+  'settings.importSkipped': { one: '{count} entry skipped:', other: '{count} entries skipped:' },
+  'settings.emergency': 'Emergency button',
+  'settings.emergencyHint': 'What you have to do before a pause can be skipped.',
+  'settings.theme': 'Appearance',
+  'settings.notifications': 'Notifications',
+  'settings.notificationsToggle': 'Remind me when a pause ends',
+  'settings.notificationsHint': 'Notifications arrive even when the app is closed.',
+  'settings.permission.granted': 'Browser permission: allowed.',
+  'settings.permission.denied': 'Blocked by the browser. Allow it in your site settings.',
+  'settings.permission.default': 'The browser hasn\'t been asked yet.',
+  'settings.permission.unsupported': 'This browser doesn\'t support notifications.',
+  'settings.durations': 'Pause limits',
+  'settings.minDuration': 'Shortest',
+  'settings.maxDuration': 'Longest',
+  'settings.durationsHint': 'Applies to every duration choice. Per-category minimums still apply.',
+  'settings.resetPreferences': 'Restore default settings',
+
+  'notification.expiredTitle': 'Time\'s Up! ⏰',
+  'notification.expiredBody': 'Time to head back to SecondThought for your decision.',
+  'notification.open': 'Open Result',
+  'notification.dismiss': 'Later',
+  'notification.checkInTitle': 'How strong is the urge now?',
+  'notification.checkInBody': 'Answer with a single number. Your wait keeps going.',
+  'notification.checkInAnswer': 'Answer',
+
+  'backup.invalidJson': 'The file is not valid JSON.',
+  'backup.notBackup': 'This file is not a SecondThought backup.',
+  'backup.unsupportedVersion': 'Backup version {version} is not supported.',
+  'backup.missingSection': 'Section "{key}" is missing.',
+
+  'category.unnamed': 'Untitled',
+
+  'categories.title': 'Categories',
+  'categories.subtitle': 'Tap to edit, reorder, or archive the ones you no longer use.',
+  'categories.archived': 'Archived',
+  'categories.moveUp': 'Move up',
+  'categories.moveDown': 'Move down',
+  'categories.archive': 'Archive',
+  'categories.unarchive': 'Restore',
+  'categories.new': 'New Category',
+  'categories.edit': 'Edit Category',
+  'categories.name': 'Name',
+  'categories.namePlaceholder': 'e.g. Games, Eating out',
+  'categories.icon': 'Icon',
+  'categories.color': 'Color',
+  'categories.defaultDuration': 'Recommended pause',
+  'categories.minDuration': 'Minimum pause',
+  'categories.none': 'None',
+  'categories.minDurationHint': 'Shorter pauses can\'t be picked for this category.',
+  'categories.questions': 'Reflection questions',
+  'categories.questionPlaceholder': 'Write a question...',
+  'categories.removeQuestion': 'Remove question',
+  'categories.addQuestion': 'Add question',
+
+  'questions.shopping.own': 'Do I already own something similar?',
+  'questions.shopping.price': 'Would I still want it at twice the price?',
+  'questions.shopping.use': 'Will I actually use it this month?',
+  'questions.message.calm': 'Would I still send this if I were calm?',
+  'questions.message.reader': 'How will the recipient feel reading this?',
+  'questions.work.worst': 'What\'s the worst that happens if I wait?',
+  'questions.work.involve': 'Who should I talk to first?',
+  'questions.feeling.name': 'What am I actually feeling right now?',
+  'questions.feeling.need': 'What do I need right now?',
+  'questions.intensity': 'How strong is the urge right now?',
+  'questions.halt': 'Are you hungry, angry, lonely or tired right now?',
+
+  'emotion.hungry': 'Hungry',
+  'emotion.angry': 'Angry',
+  'emotion.lonely': 'Lonely',
+  'emotion.tired': 'Tired',
+
+  'questionKind.text': 'Free text',
+  'questionKind.intensity': '1–10 scale',
+  'questionKind.emotion': 'Emotion (HALT)',
+  'questionKind.yesNo': 'Yes / No',
+
+  'questionnaire.intensityLow': 'Calm',
+  'questionnaire.intensityHigh': 'Overwhelming',
+  'questionnaire.progress': 'Question {current} of {total}',
+
+  'emergency.title': 'Skip the pause?',
+  'emergency.forfeit': 'The remaining {duration} of your pause will be forfeited.',
+  'emergency.reasonLabel': 'Why can\'t this wait?',
+  'emergency.reasonOptional': 'Reason (optional)',
+  'emergency.reasonPlaceholder': 'Be honest with yourself...',
+  'emergency.reasonHint': { one: 'At least {count} character', other: 'At least {count} characters' },
+  'emergency.confirm': 'Skip the pause',
+  'emergency.hold': 'Hold to skip',
+  'emergency.holdHint': { one: 'Keep pressing for {count} second.', other: 'Keep pressing for {count} seconds.' },
+  'emergency.breatheIntro': 'Breathe along with the circle first.',
+  'emergency.breathsLeft': { one: '{count} breath left', other: '{count} breaths left' },
+  'emergency.keepWaiting': 'Keep waiting',
+
+  'friction.justification': 'Write a reason',
+  'friction.hold': 'Hold to confirm',
+  'friction.breathing': 'Breathing exercise',
+
+  'breathing.inhale': 'Breathe in',
+  'breathing.hold': 'Hold',
+  'breathing.exhale': 'Breathe out',
+  'breathing.pattern.box': 'Box 4-4-4-4',
+  'breathing.pattern.478': '4-7-8',
+  'breathing.pattern.coherent': 'Coherent 5-5',
+  'breathing.sound': 'Sound cues',
+  'breathing.haptics': 'Haptic cues',
+  'breathing.start': 'Start breathing exercise',
+  'breathing.stop': 'Stop',
+  'breathing.session': { one: '{duration} · {count} cycle completed', other: '{duration} · {count} cycles completed' },
+  'breathing.total': { one: '{count} breathing cycle during this pause', other: '{count} breathing cycles during this pause' },
+
+  'alarm.stop': 'Stop alarm',
+  'alarm.title': 'Alarm sound',
+  'alarm.silent': 'Silent mode',
+  'alarm.silentHint': 'Notifications only, no sound when a pause ends.',
+  'alarm.tone': 'Tone',
+  'alarm.tone.success': 'Gentle',
+  'alarm.tone.chime': 'Chime',
+  'alarm.tone.bell': 'Bell',
+  'alarm.tone.pulse': 'Pulse',
+  'alarm.tone.custom': 'My sound',
+  'alarm.upload': 'Upload a sound',
+  'alarm.error.notAudio': 'That file isn\'t audio.',
+  'alarm.error.tooLarge': 'The file is too large. The limit is {size} MB.',
+  'alarm.error.storageFull': 'Your device storage is full, so the sound couldn\'t be saved.',
+  'alarm.volume': 'Volume {percent}',
+  'alarm.fadeIn': 'Fade in',
+  'alarm.noFade': 'Off',
+  'alarm.maxRing': 'Stop ringing after',
+  'alarm.preview': 'Preview',
+  'alarm.stopPreview': 'Stop preview',
+
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'Match system',
+  'theme.switch': 'Theme: {theme}. Tap to change.',
+
+  'lock.title': 'App lock',
+  'lock.toggle': 'Lock with a PIN',
+  'lock.hint': 'The journal and active pauses only open after entering the PIN, and their text is stored encrypted.',
+  'lock.choosePin': 'Choose a 4–8 digit PIN.',
+  'lock.enterPinToDisable': 'Enter your PIN to turn the lock off.',
+  'lock.pinPlaceholder': 'PIN',
+  'lock.confirmPlaceholder': 'Repeat PIN',
+  'lock.forgetWarning': 'If you forget the PIN, the encrypted text can’t be recovered.',
+  'lock.mismatch': 'The PINs don’t match.',
+  'lock.turnOn': 'Turn on lock',
+  'lock.turnOff': 'Turn off lock',
+  'lock.wrongPin': { one: 'Wrong PIN. {count} attempt left.', other: 'Wrong PIN. {count} attempts left.' },
+  'lock.tooManyAttempts': 'Too many attempts. Try again later.',
+  'lock.lockedOut': 'Too many attempts. Try again in {time}.',
+  'lock.biometric': 'Unlock with biometrics',
+  'lock.biometricHint': 'Fingerprint or face instead of the PIN on this device.',
+  'lock.biometricUnsupported': 'This device doesn’t support biometric unlock for encrypted data.',
+  'lock.biometricFailed': 'Biometrics didn’t work. Use your PIN.',
+  'lock.lockNow': 'Lock now',
+  'lock.screenTitle': 'SecondThought is locked',
+  'lock.screenSubtitle': 'Enter your PIN to open your journal and pauses.',
+  'lock.unlock': 'Unlock',
+  'lock.useBiometric': 'Use biometrics',
+
+  'draft.resumeTitle': 'Continue where you left off?',
+  'draft.resume': 'Continue',
+  'draft.discard': 'Discard',
+
+  'vault.messageLabel': 'The message you want to send (optional)',
+  'vault.recipientPlaceholder': 'Who is it for?',
+  'vault.bodyPlaceholder': 'Write it exactly as you want to send it…',
+  'vault.inputHint': 'The message is locked away during the pause. You can only see, copy or share it once the time is up.',
+  'vault.locked': 'Your message is locked away',
+  'vault.lockedFor': 'Message to {recipient} is locked away',
+  'vault.lockedHint': 'It opens again when the pause is over.',
+  'vault.title': 'Your message',
+  'vault.titleFor': 'Message to {recipient}',
+  'vault.original': 'What you wrote',
+  'vault.revised': 'Version now',
+  'vault.copy': 'Copy',
+  'vault.copied': 'Copied',
+  'vault.share': 'Share',
+  'vault.sent': 'I sent it',
+  'vault.sentRewritten': 'I sent the new version',
+  'vault.discard': 'Discard',
+  'vault.outcome.sent': 'sent as written',
+  'vault.outcome.rewritten': 'rewritten, then sent',
+  'vault.outcome.discarded': 'not sent',
+
+  'wishlist.title': 'Wishlist',
+  'wishlist.subtitle': 'Things you want to buy, left to sit for a few days. Whatever you still want after the cooling-off period may be worth buying.',
+  'wishlist.empty': 'Nothing on the list yet.',
+  'wishlist.add': 'Add an item',
+  'wishlist.namePlaceholder': 'What do you want to buy?',
+  'wishlist.pricePlaceholder': 'Price',
+  'wishlist.urlPlaceholder': 'Product link (optional)',
+  'wishlist.urlInvalid': 'That link can’t be opened.',
+  'wishlist.notesPlaceholder': 'Notes (optional)',
+  'wishlist.coolOff': 'Cooling-off period',
+  'wishlist.recheckEvery': 'Ask again every',
+  'wishlist.survived': { one: 'Survived {count} day', other: 'Survived {count} days' },
+  'wishlist.coolingUntil': 'cooling off until {date}',
+  'wishlist.cooledOff': 'cooling-off over',
+  'wishlist.openLink': 'Open link',
+  'wishlist.recheckPrompt': 'Still want this?',
+  'wishlist.stillWant': 'Still want it',
+  'wishlist.bought': 'I bought it',
+  'wishlist.drop': 'Let it go',
+  'wishlist.park': 'Put it on the wishlist',
+  'wishlist.parkHint': 'For purchases that need days rather than minutes.',
+
+  'checkIn.title': 'Check-in',
+  'checkIn.question': 'How strong is the urge now?',
+  'checkIn.scale': '1 = almost gone, 10 = very strong',
+  'checkIn.chartTitle': 'Urge over the wait',
+  'checkIn.chartLabel': 'The urge went from {from} to {to} out of 10',
+  'checkIn.settingsTitle': 'Check-ins during the wait',
+  'checkIn.mode.off': 'Off',
+  'checkIn.mode.quarters': 'At 25/50/75%',
+  'checkIn.mode.interval': 'Every few hours',
+  'checkIn.every': 'Every',
+  'checkIn.settingsHint': 'During waits of an hour or more, SecondThought asks now and then how strong the urge is. The answers are plotted on the result screen.',
+
+  'calendar.summary': 'SecondThought: time to decide ({category})',
+  'calendar.description': 'Your wait is over. Open the result: {link}',
+  'calendar.addOnStart': 'Add to calendar',
+  'calendar.addOnStartHint': 'Downloads an .ics event with an alarm for when the wait ends, in case notifications don\'t come through.',
+  'calendar.exportPending': 'Export Pending Waits to Calendar (.ics)',
+
+  'schema.notObject': 'not an object',
+  'schema.missing': '{field} is missing',
+  'schema.notText': '{field} must be text',
+  'schema.notNumber': '{field} must be a number',
+  'schema.notBoolean': '{field} must be true or false',
+  'schema.notList': '{field} must be a list',
+  'schema.invalid': '{field} is invalid',
+  'schema.unknownValue': '{field} has an unknown value',
+  'schema.notWebUrl': '{field} must be an http(s) link',
+  'schema.brokenJson': 'broken JSON',
+};
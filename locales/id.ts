@@ -0,0 +1,418 @@
+// Indonesian is the source catalog: its keys define `MessageKey`.
+export const id = {
+  'type.shopping': 'Beli sesuatu',
+  'type.message': 'Mau kirim pesan',
+  'type.work': 'Urusan kerja',
+  'type.feeling': 'Perasaan',
+  'type.other': 'Lainnya',
+  'type.title': 'Ini tentang apa?',
+  'type.subtitle': 'Tenang, ini cuma buat kamu.',
+  'type.manage': 'Atur kategori',
+
+  'outcome.completed': 'Lanjut',
+  'outcome.cancelled': 'Batal',
+
+  'notificationBanner.testTitle': 'Notifikasi Aktif!',
+  'notificationBanner.testBody': 'Kami akan kabari saat waktunya tiba.',
+  'notificationBanner.title': 'Aktifkan Notifikasi?',
+  'notificationBanner.desc': 'Biar kamu tau saat waktunya habis.',
+  'notificationBanner.enable': 'Aktifkan',
+
+  'money.title': 'Uang nggak jadi keluar',
+
+  'landing.imageAlt': 'Ilustrasi awan',
+  'landing.title': 'Perlu mikir bentar?',
+  'landing.subtitle': 'SecondThought bantu kamu ngasih jeda sebelum ambil keputusan penting.',
+  'landing.start': 'Mulai',
+  'landing.activeCount': { other: '{count} Jeda Berjalan' },
+  'landing.howItWorks': 'Gimana cara kerjanya?',
+
+  'journal.title': 'Jurnal Keputusan',
+  'journal.filterAll': 'Semua',
+  'journal.filterAllOutcomes': 'Semua hasil',
+  'journal.empty': 'Belum ada keputusan yang tercatat.',
+  'journal.noMatch': 'Nggak ada catatan yang cocok dengan filter ini.',
+  'journal.snoozedCount': { other: 'Ditunda {count}x' },
+  'journal.skipped': 'jeda dilewati',
+
+  'howItWorks.captureTitle': 'Tangkap Impuls',
+  'howItWorks.captureDesc': 'Otak kita punya \'Sistem Cepat\' yang sering bikin kita menyesal. Kita bantu kamu ngerem dulu.',
+  'howItWorks.coolTitle': 'Dinginkan Pikiran',
+  'howItWorks.coolDesc': 'Tunggu timer habis. Riset membuktikan emosi sesaat akan reda setelah beberapa menit.',
+  'howItWorks.decideTitle': 'Keputusan Sadar',
+  'howItWorks.decideDesc': 'Setelah tenang, kamu bisa memutuskan: Lanjut, Batal, atau Tunda lagi.',
+  'howItWorks.title': 'Cara Kerja',
+  'howItWorks.quote': '"Tujuan kita bukan melarang, tapi memberimu kendali penuh."',
+  'howItWorks.tryNow': 'Cobain Sekarang',
+
+  'common.step': 'Langkah {current} dari {total}',
+  'common.next': 'Lanjut',
+  'common.cancel': 'Batal',
+  'common.save': 'Simpan',
+  'common.back': 'Kembali',
+  'common.done': 'Selesai',
+  'common.yes': 'Ya',
+  'common.no': 'Tidak',
+
+  'input.title': 'Ceritain sedikit',
+  'input.subtitle': 'Apa yang lagi kamu pikirin? Nggak perlu panjang.',
+  'input.placeholder': 'Contoh: Mau checkout sepatu jam 23.30',
+  'input.amountLabel': 'Harganya berapa? (opsional)',
+  'input.privacy': 'Tenang, ini cuma antara kita.',
+
+  'picker.errorMax': 'Maksimal durasi adalah {max}.',
+  'picker.errorMin': 'Durasi minimal {min}.',
+  'picker.feedbackBreath': '{duration} cukup untuk menenangkan nafas.',
+  'picker.feedbackEmotion': '{duration} bagus untuk meredakan emosi sesaat.',
+  'picker.feedbackDaily': '{duration} ideal untuk keputusan belanja atau pesan.',
+  'picker.feedbackBig': '{duration} cocok untuk keputusan besar dalam hidup.',
+  'picker.title': 'Atur Waktu Sendiri',
+  'picker.unitMinutes': { other: 'Menit' },
+  'picker.unitHours': { other: 'Jam' },
+  'picker.unitDays': { other: 'Hari' },
+  'picker.info': 'Info:',
+
+  'delay.title': 'Mau dijeda\nberapa lama?',
+  'delay.subtitle': 'Kadang jawaban terbaik datang setelah jeda sejenak.',
+  'delay.hourSub': 'Buat napas dulu',
+  'delay.tomorrow': 'Besok pagi',
+  'delay.tomorrowSub': 'Tidur dulu aja',
+  'delay.daySub': 'Pikir matang',
+  'delay.quickSub': 'Coba dulu',
+  'delay.recommended': 'Disarankan untuk {category}',
+  'delay.minimum': '{category} butuh jeda minimal {duration}.',
+
+  'duration.minutes': { other: '{count} menit' },
+  'duration.hours': { other: '{count} jam' },
+  'duration.days': { other: '{count} hari' },
+  'duration.seconds': { other: '{count} detik' },
+
+  'reflection.title': 'Sebelum lanjut...',
+  'reflection.imageAlt': 'Tenang',
+  'reflection.badge': 'Refleksi',
+  'reflection.quote': '"Banyak keputusan impulsif terjadi saat kita capek atau emosi."',
+  'reflection.question': 'Kalau ditunda sebentar, apa yang paling kamu takutkan?',
+  'reflection.placeholder': 'Tulis jawabanmu di sini...',
+  'reflection.start': 'Mulai Timer',
+
+  'waiting.remaining': 'Sisa Waktu',
+  'waiting.title': 'Tunggu sebentar ya.',
+  'waiting.subtitle': 'Keputusan terbaik lahir dari pikiran yang tenang.',
+  'waiting.endsAt': 'Selesai pukul {time}',
+  'waiting.hours': 'Jam',
+  'waiting.minutes': 'Menit',
+  'waiting.seconds': 'Detik',
+  'waiting.locked': 'Menunggu...',
+  'waiting.emergency': 'Saya butuh ini sekarang (Darurat)',
+
+  'result.completed.title': 'Kamu yakin?',
+  'result.completed.desc': 'Oke, kamu sudah melewati masa tunggu. Tulis alasan kenapa kamu tetap mau lanjut, biar jadi pengingat nanti.',
+  'result.completed.placeholder': 'Saya memutuskan lanjut karena...',
+  'result.completed.button': 'Lanjut & Selesai',
+  'result.cancelled.title': 'Keputusan Hebat!',
+  'result.cancelled.desc': 'Menahan diri itu nggak gampang. Apa yang bikin kamu berubah pikiran?',
+  'result.cancelled.placeholder': 'Saya batal karena sadar bahwa...',
+  'result.cancelled.button': 'Simpan & Selesai',
+  'result.snoozed.title': 'Masih ragu?',
+  'result.snoozed.desc': 'Nggak masalah. Tulis apa yang masih mengganjal di pikiranmu.',
+  'result.snoozed.placeholder': 'Saya masih bingung soal...',
+  'result.snoozed.button': 'Tunda Dulu',
+  'result.yourReason': 'alasanmu',
+  'result.completed.appreciationTitle': 'Semoga Lancar!',
+  'result.completed.appreciationBody': 'Kamu memutuskan lanjut karena {reason}. Keputusan yang diambil dengan kepala dingin biasanya jarang salah. Good luck!',
+  'result.cancelled.appreciationTitle': 'Self-Control Level Up!',
+  'result.cancelled.appreciationBody': 'Hebat! Kamu berhasil menahan impuls karena menyadari {reason}. Dompet dan mentalmu pasti berterima kasih.',
+  'result.snoozed.appreciationTitle': 'Pelan-pelan Saja',
+  'result.snoozed.appreciationBody': 'Gapapa kalau masih ragu soal {reason}. Lebih baik tunda daripada menyesal. Ambil waktumu lagi ya.',
+  'result.imageAlt': 'Daun yang tenang',
+  'result.intent': 'Niat Awalmu',
+  'result.title': 'Waktu Habis!',
+  'result.question': 'Jadi, gimana keputusanmu sekarang?',
+  'result.choiceCompleted': 'Lanjut, aku yakin',
+  'result.choiceCancelled': 'Nggak jadi deh',
+  'result.choiceSnoozed': 'Tunda lagi',
+  'result.restart': 'Mulai Jeda Lagi',
+  'result.checkinTitle': 'Waktunya cek lagi',
+  'result.checkinSubtitle': 'Jawab lagi pertanyaan yang sama. Kita bandingkan dengan sebelum jeda.',
+  'result.beforeAfter': 'Sebelum vs sesudah jeda',
+
+  'dashboard.title': 'Jeda Berjalan',
+  'dashboard.expired': 'Waktu Habis',
+  'dashboard.new': 'Jeda Baru',
+
+  'journalDetail.reflection': 'Refleksi Sebelum Jeda',
+  'journalDetail.finalNote': 'Catatan Akhir',
+  'journalDetail.title': 'Detail Catatan',
+  'journalDetail.noNote': 'Tidak ada catatan.',
+  'journalDetail.snoozeRounds': { other: 'Ditunda {count}x sebelum diputuskan' },
+  'journalDetail.round': 'Putaran {number}',
+  'journalDetail.pausedFor': 'Dijeda selama {duration}',
+  'journalDetail.skipped': 'Jeda dilewati',
+  'journalDetail.forfeited': '{duration} hangus',
+  'journalDetail.breathing': { other: '{count} siklus napas ({duration})' },
+  'journalDetail.fromWishlist': { other: 'Dari daftar keinginan · {count} hari' },
+  'journalDetail.rechecks': { other: 'ditanya ulang {count} kali' },
+
+  'insights.title': 'Insight',
+  'insights.empty': 'Belum ada data di periode ini.',
+  'insights.resisted': 'Berhasil ditahan',
+  'insights.recorded': 'Keputusan tercatat',
+  'insights.averagePause': 'Rata-rata jeda',
+  'insights.emergency': 'Lewat jalur darurat',
+  'insights.byCategory': 'Per kategori',
+  'insights.entries': { other: '{count} catatan' },
+  'insights.categorySummary': '{cancelled} batal · {completed} lanjut · rata-rata {average} · darurat {emergency}',
+  'insights.heatmap': 'Kapan impuls muncul',
+  'insights.forfeited': { other: 'Jeda dilewati {count} kali, total {duration} waktu tunggu hangus.' },
+
+  'settings.title': 'Pengaturan',
+  'settings.language': 'Bahasa',
+  'settings.language.id': 'Bahasa Indonesia',
+  'settings.language.en': 'English',
+  'settings.data': 'Data',
+  'settings.exportJson': 'Ekspor Cadangan (JSON)',
+  'settings.exportCsv': 'Ekspor Jurnal (CSV)',
+  'settings.import': 'Impor Cadangan',
+  'settings.importHint': 'Data yang sudah ada tidak akan ditimpa atau diduplikasi saat impor.',
+  'settings.quarantineTitle': { other: '{count} data rusak dikarantina' },
+  'settings.quarantineDesc': 'Data ini nggak bisa dibaca, jadi kami simpan terpisah supaya aplikasi tetap jalan.',
+  'settings.download': 'Unduh',
+  'settings.delete': 'Hapus',
+  'settings.importResult': 'Hasil Impor',
+  'settings.importSummary': '{added} catatan ditambahkan, {skipped} sudah ada.',
+  'settings.importSkipped': { other: '{count} entri dilewati:' },
+  'settings.emergency': 'Tombol darurat',
+  'settings.emergencyHint': 'Yang harus kamu lakukan sebelum jeda bisa dilewati.',
+  'settings.theme': 'Tampilan',
+  'settings.notifications': 'Notifikasi',
+  'settings.notificationsToggle': 'Ingatkan saat jeda selesai',
+  'settings.notificationsHint': 'Notifikasi tetap muncul walau aplikasi ditutup.',
+  'settings.permission.granted': 'Izin browser: diizinkan.',
+  'settings.permission.denied': 'Diblokir oleh browser. Izinkan lewat pengaturan situs.',
+  'settings.permission.default': 'Browser belum memberi izin.',
+  'settings.permission.unsupported': 'Browser ini tidak mendukung notifikasi.',
+  'settings.durations': 'Batas durasi jeda',
+  'settings.minDuration': 'Paling singkat',
+  'settings.maxDuration': 'Paling lama',
+  'settings.durationsHint': 'Berlaku untuk semua pilihan durasi. Minimum per kategori tetap berlaku.',
+  'settings.resetPreferences': 'Kembalikan pengaturan awal',
+
+  'notification.expiredTitle': 'Waktu Habis! ⏰',
+  'notification.expiredBody': 'Saatnya kembali ke SecondThought untuk keputusanmu.',
+  'notification.open': 'Buka Hasil',
+  'notification.dismiss': 'Nanti',
+  'notification.checkInTitle': 'Seberapa kuat dorongannya sekarang?',
+  'notification.checkInBody': 'Jawab dengan satu angka. Penantianmu tetap berjalan.',
+  'notification.checkInAnswer': 'Jawab',
+
+  'backup.invalidJson': 'File bukan JSON yang valid.',
+  'backup.notBackup': 'File ini bukan cadangan SecondThought.',
+  'backup.unsupportedVersion': 'Versi cadangan {version} tidak didukung.',
+  'backup.missingSection': 'Bagian "{key}" tidak ditemukan.',
+
+  'category.unnamed': 'Tanpa nama',
+
+  'categories.title': 'Kategori',
+  'categories.subtitle': 'Ketuk untuk mengubah, atur urutan, atau arsipkan yang sudah nggak dipakai.',
+  'categories.archived': 'Diarsipkan',
+  'categories.moveUp': 'Naikkan',
+  'categories.moveDown': 'Turunkan',
+  'categories.archive': 'Arsipkan',
+  'categories.unarchive': 'Pulihkan',
+  'categories.new': 'Kategori Baru',
+  'categories.edit': 'Ubah Kategori',
+  'categories.name': 'Nama',
+  'categories.namePlaceholder': 'Misalnya: Game, Makan di luar',
+  'categories.icon': 'Ikon',
+  'categories.color': 'Warna',
+  'categories.defaultDuration': 'Jeda yang disarankan',
+  'categories.minDuration': 'Jeda minimum',
+  'categories.none': 'Tidak ada',
+  'categories.minDurationHint': 'Durasi yang lebih pendek nggak bisa dipilih untuk kategori ini.',
+  'categories.questions': 'Pertanyaan refleksi',
+  'categories.questionPlaceholder': 'Tulis pertanyaan...',
+  'categories.removeQuestion': 'Hapus pertanyaan',
+  'categories.addQuestion': 'Tambah pertanyaan',
+
+  'questions.shopping.own': 'Apa aku sudah punya barang yang mirip?',
+  'questions.shopping.price': 'Kalau harganya dua kali lipat, apa aku tetap mau?',
+  'questions.shopping.use': 'Apa aku benar-benar akan memakainya bulan ini?',
+  'questions.message.calm': 'Apa aku tetap mau mengirim ini kalau sedang tenang?',
+  'questions.message.reader': 'Bagaimana perasaan penerimanya saat membaca ini?',
+  'questions.work.worst': 'Apa akibat terburuknya kalau aku menunggu?',
+  'questions.work.involve': 'Siapa yang sebaiknya aku ajak bicara dulu?',
+  'questions.feeling.name': 'Apa yang sebenarnya sedang aku rasakan?',
+  'questions.feeling.need': 'Apa yang aku butuhkan saat ini?',
+  'questions.intensity': 'Seberapa kuat dorongannya sekarang?',
+  'questions.halt': 'Apa kamu sedang lapar, marah, kesepian, atau capek?',
+
+  'emotion.hungry': 'Lapar',
+  'emotion.angry': 'Marah',
+  'emotion.lonely': 'Kesepian',
+  'emotion.tired': 'Capek',
+
+  'questionKind.text': 'Teks bebas',
+  'questionKind.intensity': 'Skala 1–10',
+  'questionKind.emotion': 'Emosi (HALT)',
+  'questionKind.yesNo': 'Ya / Tidak',
+
+  'questionnaire.intensityLow': 'Tenang',
+  'questionnaire.intensityHigh': 'Nggak tertahan',
+  'questionnaire.progress': 'Pertanyaan {current} dari {total}',
+
+  'emergency.title': 'Yakin mau melewati jeda?',
+  'emergency.forfeit': 'Sisa {duration} waktu jeda akan hangus.',
+  'emergency.reasonLabel': 'Kenapa ini tidak bisa menunggu?',
+  'emergency.reasonOptional': 'Alasan (opsional)',
+  'emergency.reasonPlaceholder': 'Jujur pada dirimu sendiri...',
+  'emergency.reasonHint': { other: 'Minimal {count} karakter' },
+  'emergency.confirm': 'Lewati jeda',
+  'emergency.hold': 'Tahan untuk melewati',
+  'emergency.holdHint': { other: 'Tahan tombol selama {count} detik.' },
+  'emergency.breatheIntro': 'Ikuti lingkaran ini dan bernapaslah dulu.',
+  'emergency.breathsLeft': { other: '{count} napas lagi' },
+  'emergency.keepWaiting': 'Lanjut menunggu',
+
+  'friction.justification': 'Tulis alasan',
+  'friction.hold': 'Tahan tombol',
+  'friction.breathing': 'Latihan napas',
+
+  'breathing.inhale': 'Tarik napas',
+  'breathing.hold': 'Tahan',
+  'breathing.exhale': 'Hembuskan',
+  'breathing.pattern.box': 'Kotak 4-4-4-4',
+  'breathing.pattern.478': '4-7-8',
+  'breathing.pattern.coherent': 'Koheren 5-5',
+  'breathing.sound': 'Suara penanda',
+  'breathing.haptics': 'Getaran penanda',
+  'breathing.start': 'Mulai latihan napas',
+  'breathing.stop': 'Berhenti',
+  'breathing.session': { other: '{duration} · {count} siklus selesai' },
+  'breathing.total': { other: '{count} siklus napas selama jeda ini' },
+
+  'alarm.stop': 'Matikan alarm',
+  'alarm.title': 'Suara alarm',
+  'alarm.silent': 'Mode senyap',
+  'alarm.silentHint': 'Hanya notifikasi, tanpa suara saat jeda selesai.',
+  'alarm.tone': 'Nada',
+  'alarm.tone.success': 'Lembut',
+  'alarm.tone.chime': 'Denting',
+  'alarm.tone.bell': 'Lonceng',
+  'alarm.tone.pulse': 'Denyut',
+  'alarm.tone.custom': 'Suara sendiri',
+  'alarm.upload': 'Unggah suara',
+  'alarm.error.notAudio': 'File ini bukan audio.',
+  'alarm.error.tooLarge': 'File terlalu besar. Maksimal {size} MB.',
+  'alarm.error.storageFull': 'Penyimpanan perangkat penuh, suara tidak bisa disimpan.',
+  'alarm.volume': 'Volume {percent}',
+  'alarm.fadeIn': 'Naik perlahan',
+  'alarm.noFade': 'Langsung',
+  'alarm.maxRing': 'Berhenti otomatis setelah',
+  'alarm.preview': 'Putar contoh',
+  'alarm.stopPreview': 'Hentikan contoh',
+
+  'theme.light': 'Terang',
+  'theme.dark': 'Gelap',
+  'theme.system': 'Ikuti sistem',
+  'theme.switch': 'Tema: {theme}. Ketuk untuk mengganti.',
+
+  'lock.title': 'Kunci aplikasi',
+  'lock.toggle': 'Kunci dengan PIN',
+  'lock.hint': 'Jurnal dan jeda aktif hanya terbuka setelah PIN dimasukkan, dan teksnya disimpan terenkripsi.',
+  'lock.choosePin': 'Pilih PIN 4–8 angka.',
+  'lock.enterPinToDisable': 'Masukkan PIN untuk mematikan kunci.',
+  'lock.pinPlaceholder': 'PIN',
+  'lock.confirmPlaceholder': 'Ulangi PIN',
+  'lock.forgetWarning': 'Jika PIN terlupa, teks yang terenkripsi tidak bisa dipulihkan.',
+  'lock.mismatch': 'Kedua PIN tidak sama.',
+  'lock.turnOn': 'Nyalakan kunci',
+  'lock.turnOff': 'Matikan kunci',
+  'lock.wrongPin': { other: 'PIN salah. Sisa {count} percobaan.' },
+  'lock.tooManyAttempts': 'Terlalu banyak percobaan. Coba lagi nanti.',
+  'lock.lockedOut': 'Terlalu banyak percobaan. Coba lagi dalam {time}.',
+  'lock.biometric': 'Buka dengan biometrik',
+  'lock.biometricHint': 'Sidik jari atau wajah sebagai ganti PIN di perangkat ini.',
+  'lock.biometricUnsupported': 'Perangkat ini tidak mendukung buka kunci biometrik untuk data terenkripsi.',
+  'lock.biometricFailed': 'Biometrik tidak berhasil. Gunakan PIN.',
+  'lock.lockNow': 'Kunci sekarang',
+  'lock.screenTitle': 'SecondThought terkunci',
+  'lock.screenSubtitle': 'Masukkan PIN untuk membuka jurnal dan jedamu.',
+  'lock.unlock': 'Buka',
+  'lock.useBiometric': 'Gunakan biometrik',
+
+  'draft.resumeTitle': 'Lanjutkan yang tadi?',
+  'draft.resume': 'Lanjutkan',
+  'draft.discard': 'Buang',
+
+  'vault.messageLabel': 'Pesan yang ingin dikirim (opsional)',
+  'vault.recipientPlaceholder': 'Untuk siapa?',
+  'vault.bodyPlaceholder': 'Tulis pesannya persis seperti yang ingin kamu kirim…',
+  'vault.inputHint': 'Pesan ini dikunci selama jeda. Kamu baru bisa melihat, menyalin, atau membagikannya setelah waktunya habis.',
+  'vault.locked': 'Pesanmu terkunci',
+  'vault.lockedFor': 'Pesan untuk {recipient} terkunci',
+  'vault.lockedHint': 'Terbuka lagi setelah jeda selesai.',
+  'vault.title': 'Pesanmu',
+  'vault.titleFor': 'Pesan untuk {recipient}',
+  'vault.original': 'Yang kamu tulis',
+  'vault.revised': 'Versi sekarang',
+  'vault.copy': 'Salin',
+  'vault.copied': 'Tersalin',
+  'vault.share': 'Bagikan',
+  'vault.sent': 'Kukirim',
+  'vault.sentRewritten': 'Kukirim versi baru',
+  'vault.discard': 'Buang',
+  'vault.outcome.sent': 'dikirim apa adanya',
+  'vault.outcome.rewritten': 'ditulis ulang lalu dikirim',
+  'vault.outcome.discarded': 'tidak jadi dikirim',
+
+  'wishlist.title': 'Daftar keinginan',
+  'wishlist.subtitle': 'Barang yang ingin kamu beli, didiamkan dulu beberapa hari. Yang masih kamu mau setelah masa tenang, mungkin memang layak dibeli.',
+  'wishlist.empty': 'Belum ada barang di daftar.',
+  'wishlist.add': 'Tambah barang',
+  'wishlist.namePlaceholder': 'Apa yang ingin dibeli?',
+  'wishlist.pricePlaceholder': 'Harga',
+  'wishlist.urlPlaceholder': 'Tautan produk (opsional)',
+  'wishlist.urlInvalid': 'Tautan ini tidak bisa dibuka.',
+  'wishlist.notesPlaceholder': 'Catatan (opsional)',
+  'wishlist.coolOff': 'Masa tenang',
+  'wishlist.recheckEvery': 'Tanya lagi setiap',
+  'wishlist.survived': { other: 'Bertahan {count} hari' },
+  'wishlist.coolingUntil': 'tenang sampai {date}',
+  'wishlist.cooledOff': 'masa tenang selesai',
+  'wishlist.openLink': 'Buka tautan',
+  'wishlist.recheckPrompt': 'Masih mau ini?',
+  'wishlist.stillWant': 'Masih mau',
+  'wishlist.bought': 'Sudah kubeli',
+  'wishlist.drop': 'Lepaskan',
+  'wishlist.park': 'Masukkan ke daftar keinginan',
+  'wishlist.parkHint': 'Untuk belanjaan yang butuh berhari-hari, bukan hitungan menit.',
+
+  'checkIn.title': 'Check-in',
+  'checkIn.question': 'Seberapa kuat dorongannya sekarang?',
+  'checkIn.scale': '1 = hampir hilang, 10 = sangat kuat',
+  'checkIn.chartTitle': 'Kekuatan dorongan',
+  'checkIn.chartLabel': 'Dorongan berubah dari {from} ke {to} dari 10',
+  'checkIn.settingsTitle': 'Check-in selama menunggu',
+  'checkIn.mode.off': 'Mati',
+  'checkIn.mode.quarters': 'Di 25/50/75%',
+  'checkIn.mode.interval': 'Berkala',
+  'checkIn.every': 'Setiap',
+  'checkIn.settingsHint': 'Saat menunggu satu jam atau lebih, SecondThought sesekali bertanya seberapa kuat dorongannya. Jawabannya digambar di layar hasil.',
+
+  'calendar.summary': 'SecondThought: waktunya memutuskan ({category})',
+  'calendar.description': 'Penantianmu sudah selesai. Buka hasilnya: {link}',
+  'calendar.addOnStart': 'Tambahkan ke kalender',
+  'calendar.addOnStartHint': 'Mengunduh acara .ics dengan alarm saat penantian selesai, untuk berjaga-jaga kalau notifikasi tidak muncul.',
+  'calendar.exportPending': 'Ekspor Penantian ke Kalender (.ics)',
+
+  'schema.notObject': 'bukan objek',
+  'schema.missing': '{field} tidak ada',
+  'schema.notText': '{field} harus berupa teks',
+  'schema.notNumber': '{field} harus berupa angka',
+  'schema.notBoolean': '{field} harus berupa boolean',
+  'schema.notList': '{field} harus berupa daftar',
+  'schema.invalid': '{field} tidak valid',
+  'schema.unknownValue': '{field} tidak dikenal',
+  'schema.notWebUrl': '{field} harus berupa tautan http(s)',
+  'schema.brokenJson': 'JSON rusak',
+};
@@ -0,0 +1,172 @@
+// SecondThought service worker: offline app shell + end-of-wait alarms (and the
+// check-ins during a wait) that fire even when no tab is open.
+
+const SHELL_CACHE = 'secondthought-shell-v1';
+const RUNTIME_CACHE = 'secondthought-runtime-v1';
+const ALARM_DB = 'secondthought-sw';
+const ALARM_STORE = 'alarms';
+const PERIODIC_SYNC_TAG = 'secondthought-alarms';
+
+// Hashed bundles (and the manifest, which Vite fingerprints) are cached at runtime instead
+const SHELL_ASSETS = [
+  '/',
+  '/index.html',
+  '/favicon.svg',
+  '/ringtone/Success-sound-effect.mp3',
+];
+
+// --- Alarm store ---
+
+const openAlarmDb = () =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(ALARM_DB, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(ALARM_STORE, { keyPath: 'id' });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const withAlarms = async (mode, apply) => {
+  const db = await openAlarmDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ALARM_STORE, mode);
+    const req = apply(tx.objectStore(ALARM_STORE));
+    tx.oncomplete = () => resolve(req ? req.result : undefined);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Notifications ---
+
+const notificationOptions = (alarm) => ({
+  body: alarm.body,
+  icon: '/favicon.svg',
+  tag: `decision-${alarm.id}`, // Same tag as the in-page notification, so it is never shown twice
+  renotify: false,
+  requireInteraction: alarm.kind !== 'checkIn', // A missed check-in isn't worth keeping on screen
+  data: { id: alarm.decisionId || alarm.id, kind: alarm.kind },
+  actions: [
+    { action: 'open', title: alarm.openLabel },
+    { action: 'dismiss', title: alarm.dismissLabel },
+  ],
+});
+
+const showAlarm = (alarm) => self.registration.showNotification(alarm.title, notificationOptions(alarm));
+
+// Shows every alarm whose end time has passed. Runs whenever the worker wakes up,
+// which covers browsers without notification triggers.
+const fireDueAlarms = async () => {
+  const alarms = (await withAlarms('readonly', store => store.getAll())) || [];
+  const due = alarms.filter(alarm => alarm.endTime <= Date.now());
+  await Promise.all(due.map(async alarm => {
+    if (!alarm.triggered) await showAlarm(alarm);
+    await withAlarms('readwrite', store => store.delete(alarm.id));
+  }));
+};
+
+const scheduleAlarm = async (alarm) => {
+  // Notification triggers let the OS show the notification while the worker is asleep
+  const supportsTriggers = 'showTrigger' in Notification.prototype && 'TimestampTrigger' in self;
+  if (supportsTriggers && alarm.endTime > Date.now()) {
+    await self.registration.showNotification(alarm.title, {
+      ...notificationOptions(alarm),
+      showTrigger: new self.TimestampTrigger(alarm.endTime),
+    });
+  }
+  await withAlarms('readwrite', store => store.put({ ...alarm, triggered: supportsTriggers }));
+  await fireDueAlarms();
+};
+
+// Check-in alarms belong to the decision through `decisionId` and a `decision-<id>:` tag prefix
+const cancelAlarm = async (id) => {
+  const alarms = (await withAlarms('readonly', store => store.getAll())) || [];
+  const owned = alarms.filter(alarm => alarm.id === id || alarm.decisionId === id);
+  await withAlarms('readwrite', store => owned.forEach(alarm => store.delete(alarm.id)));
+
+  const tag = `decision-${id}`;
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending
+    .filter(notification => notification.tag === tag || notification.tag.startsWith(`${tag}:`))
+    .forEach(notification => notification.close());
+};
+
+// --- Lifecycle ---
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_ASSETS)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => ![SHELL_CACHE, RUNTIME_CACHE].includes(key)).map(key => caches.delete(key)));
+    await self.clients.claim();
+    await fireDueAlarms();
+  })());
+});
+
+// Navigations are network-first so new deploys show up; everything else is served
+// from cache and refreshed in the background.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(async () => (await caches.match('/index.html', { ignoreSearch: true })) || Response.error())
+    );
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    const network = fetch(request)
+      .then(async response => {
+        if (response.ok || response.type === 'opaque') {
+          const cache = await caches.open(RUNTIME_CACHE);
+          await cache.put(request, response.clone());
+        }
+        return response;
+      })
+      // Neither cached nor reachable: a network error, since respondWith needs a Response
+      .catch(() => cached || Response.error());
+    if (cached) {
+      event.waitUntil(network);
+      return cached;
+    }
+    return network;
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+  if (message.type === 'SCHEDULE_ALARM') {
+    event.waitUntil(scheduleAlarm(message.alarm));
+  } else if (message.type === 'CANCEL_ALARM') {
+    event.waitUntil(cancelAlarm(message.id));
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(fireDueAlarms());
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  if (event.action === 'dismiss') return;
+
+  const { id, kind } = event.notification.data;
+  const hash = kind === 'checkIn' ? `#/waiting/${id}` : `#/result/${id}`;
+  const url = new URL(`/${hash}`, self.location.origin).href;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find(client => new URL(client.url).origin === self.location.origin);
+    if (!existing) return self.clients.openWindow(url);
+
+    await existing.focus();
+    // navigate() rejects for pages this worker doesn't control yet; the page routes itself instead
+    return existing.navigate(url).catch(() => existing.postMessage({ type: 'OPEN_ROUTE', hash }));
+  })());
+});
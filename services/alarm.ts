@@ -0,0 +1,183 @@
+// Plays the end-of-wait alarm outside any screen, so it keeps ringing after
+// the waiting screen hands over to the result screen
+import { AlarmSettings, AlarmToneId, getPreferences } from './preferences';
+
+const PREVIEW_SECONDS = 5;
+
+export interface CustomTone {
+  name: string;
+  dataUrl: string;
+}
+
+export type CustomToneError = 'notAudio' | 'tooLarge' | 'storageFull';
+
+// Kept out of the preferences record: it can weigh in at a megabyte or more
+const CUSTOM_TONE_KEY = 'secondthought_alarm_custom';
+const SUCCESS_SOUND = '/ringtone/Success-sound-effect.mp3';
+
+// Uploads live in localStorage as data URLs, which inflate by a third
+export const MAX_CUSTOM_TONE_BYTES = 1.5 * 1024 * 1024;
+
+// --- Custom Tone ---
+
+export const getCustomTone = (): CustomTone | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_TONE_KEY) ?? 'null');
+    return stored && typeof stored.name === 'string' && typeof stored.dataUrl === 'string' ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const saveCustomTone = async (file: File): Promise<CustomToneError | null> => {
+  if (!file.type.startsWith('audio/')) return 'notAudio';
+  if (file.size > MAX_CUSTOM_TONE_BYTES) return 'tooLarge';
+
+  try {
+    localStorage.setItem(CUSTOM_TONE_KEY, JSON.stringify({ name: file.name, dataUrl: await readAsDataUrl(file) }));
+    toneCache.delete('custom');
+    return null;
+  } catch {
+    return 'storageFull';
+  }
+};
+
+export const removeCustomTone = (): void => {
+  localStorage.removeItem(CUSTOM_TONE_KEY);
+  toneCache.delete('custom');
+};
+
+// --- Tones ---
+
+let context: AudioContext | null = null;
+const toneCache = new Map<AlarmToneId, AudioBuffer>();
+
+const getContext = () => {
+  context ??= new AudioContext();
+  return context;
+};
+
+// Synthesised tones are rendered once into a buffer: a list of decaying notes per loop
+type Note = { at: number; frequency: number; length: number; partial?: number };
+
+const SYNTH_TONES: Record<Exclude<AlarmToneId, 'success' | 'custom'>, { seconds: number; notes: Note[] }> = {
+  chime: { seconds: 2, notes: [{ at: 0, frequency: 659, length: 0.8 }, { at: 0.4, frequency: 523, length: 1.2 }] },
+  bell: { seconds: 2.5, notes: [{ at: 0, frequency: 880, length: 2, partial: 0.4 }] },
+  pulse: {
+    seconds: 1.5,
+    notes: [0, 0.25, 0.5].map(at => ({ at, frequency: 1000, length: 0.15 })),
+  },
+};
+
+const renderSynthTone = (ctx: AudioContext, id: keyof typeof SYNTH_TONES): AudioBuffer => {
+  const { seconds, notes } = SYNTH_TONES[id];
+  const buffer = ctx.createBuffer(1, Math.ceil(seconds * ctx.sampleRate), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  for (const note of notes) {
+    const start = Math.floor(note.at * ctx.sampleRate);
+    const end = Math.min(data.length, start + Math.floor(note.length * ctx.sampleRate));
+    for (let i = start; i < end; i++) {
+      const t = (i - start) / ctx.sampleRate;
+      const envelope = Math.exp(-4 * t / note.length);
+      const wave = Math.sin(2 * Math.PI * note.frequency * t) + (note.partial ?? 0) * Math.sin(2 * Math.PI * note.frequency * 1.5 * t);
+      data[i] += 0.5 * envelope * wave;
+    }
+  }
+  return buffer;
+};
+
+const loadTone = async (ctx: AudioContext, id: AlarmToneId): Promise<AudioBuffer> => {
+  const cached = toneCache.get(id);
+  if (cached) return cached;
+
+  let buffer: AudioBuffer;
+  if (id === 'success' || id === 'custom') {
+    // Falls back to the default tone when the upload has since been removed
+    const url = id === 'custom' ? getCustomTone()?.dataUrl ?? SUCCESS_SOUND : SUCCESS_SOUND;
+    const response = await fetch(url);
+    buffer = await ctx.decodeAudioData(await response.arrayBuffer());
+  } else {
+    buffer = renderSynthTone(ctx, id);
+  }
+  toneCache.set(id, buffer);
+  return buffer;
+};
+
+// --- Playback ---
+
+let ringing: { source: AudioBufferSourceNode; timer: ReturnType<typeof setTimeout> } | null = null;
+const listeners = new Set<(ringing: boolean) => void>();
+
+// Bumped by every stop and start, so a tone that is still loading can tell it was cancelled
+let generation = 0;
+let previewing = false; // Whether the latest start was a preview
+
+const notify = () => listeners.forEach(listener => listener(ringing !== null));
+
+export const isAlarmRinging = (): boolean => ringing !== null;
+
+export const subscribeAlarm = (listener: (ringing: boolean) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const stopAlarm = (): void => {
+  generation++;
+  if (!ringing) return;
+  clearTimeout(ringing.timer);
+  ringing.source.stop();
+  ringing = null;
+  notify();
+};
+
+const play = async (settings: AlarmSettings, seconds: number, preview: boolean): Promise<void> => {
+  stopAlarm();
+  const token = generation;
+  previewing = preview;
+  try {
+    const ctx = getContext();
+    // Browsers suspend audio that wasn't started from a user gesture; this is best effort
+    await ctx.resume().catch(() => undefined);
+    const buffer = await loadTone(ctx, settings.tone);
+    // Stopped, or replaced by another alarm, while the tone was loading
+    if (token !== generation) return;
+
+    const gain = ctx.createGain();
+    const now = ctx.currentTime;
+    gain.gain.setValueAtTime(settings.fadeInSeconds > 0 ? 0.0001 : settings.volume, now);
+    if (settings.fadeInSeconds > 0) gain.gain.linearRampToValueAtTime(settings.volume, now + settings.fadeInSeconds);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(gain).connect(ctx.destination);
+    source.start();
+
+    ringing = { source, timer: setTimeout(stopAlarm, seconds * 1000) };
+    notify();
+  } catch (e) {
+    console.warn('Alarm could not be played', e);
+  }
+};
+
+export const startAlarm = async (settings: AlarmSettings = getPreferences().alarm): Promise<void> => {
+  if (settings.silent) return;
+  await play(settings, settings.maxRingSeconds, false);
+};
+
+// Previews ignore silent mode so the user can still hear what they picked
+export const previewAlarm = (settings: AlarmSettings): Promise<void> =>
+  play({ ...settings, fadeInSeconds: Math.min(settings.fadeInSeconds, PREVIEW_SECONDS / 2) }, PREVIEW_SECONDS, true);
+
+// Leaves a real alarm ringing
+export const stopPreview = (): void => {
+  if (previewing) stopAlarm();
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { Decision, DecisionStatus, DecisionType } from '../types';
+import { computeCaptureHeatmap, computeInsights, computeMoneySaved, filterByPeriod } from './analytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Local time, like the heatmap: Sunday 18 October 2026, 09:30
+const NOW = new Date(2026, 9, 18, 9, 30).getTime();
+
+let nextId = 0;
+const decision = (fields: Partial<Decision>): Decision => ({
+  id: `d${nextId++}`,
+  categoryId: DecisionType.OTHER,
+  text: '',
+  startTime: NOW,
+  durationMinutes: 60,
+  endTime: NOW + 60 * 60 * 1000,
+  status: DecisionStatus.COMPLETED,
+  createdAt: NOW,
+  ...fields,
+});
+
+describe('filterByPeriod', () => {
+  const history = [
+    decision({ createdAt: NOW - 2 * DAY_MS }),
+    decision({ createdAt: NOW - 10 * DAY_MS }),
+    decision({ createdAt: NOW - 60 * DAY_MS }),
+    decision({ createdAt: NOW - 200 * DAY_MS }),
+    decision({ createdAt: NOW + DAY_MS }), // Clock skew; not part of any window
+  ];
+
+  it('keeps decisions created inside the window', () => {
+    expect(filterByPeriod(history, '7d', NOW)).toHaveLength(1);
+    expect(filterByPeriod(history, '30d', NOW)).toHaveLength(2);
+    expect(filterByPeriod(history, '90d', NOW)).toHaveLength(3);
+  });
+
+  it('includes the window boundary', () => {
+    expect(filterByPeriod([decision({ createdAt: NOW - 7 * DAY_MS })], '7d', NOW)).toHaveLength(1);
+  });
+
+  it('returns everything for all time', () => {
+    expect(filterByPeriod(history, 'all', NOW)).toBe(history);
+  });
+});
+
+describe('computeCaptureHeatmap', () => {
+  it('buckets captures by local day of week and hour', () => {
+    const heatmap = computeCaptureHeatmap([
+      decision({ createdAt: new Date(2026, 9, 18, 9, 5).getTime() }), // Sunday
+      decision({ createdAt: new Date(2026, 9, 18, 9, 55).getTime() }),
+      decision({ createdAt: new Date(2026, 9, 21, 23, 59).getTime() }), // Wednesday
+    ]);
+
+    expect(heatmap).toHaveLength(7);
+    heatmap.forEach(day => expect(day).toHaveLength(24));
+    expect(heatmap[0][9]).toBe(2);
+    expect(heatmap[3][23]).toBe(1);
+    expect(heatmap.flat().reduce((sum, count) => sum + count, 0)).toBe(3);
+  });
+});
+
+describe('computeInsights', () => {
+  it('aggregates per category within the period', () => {
+    const insights = computeInsights([
+      decision({ categoryId: DecisionType.SHOPPING, status: DecisionStatus.CANCELLED }),
+      decision({ categoryId: DecisionType.SHOPPING, status: DecisionStatus.COMPLETED, emergencySkippedAt: NOW, emergencyForfeitedMinutes: 30 }),
+      decision({ categoryId: DecisionType.MESSAGE, status: DecisionStatus.CANCELLED }),
+      decision({ categoryId: DecisionType.MESSAGE, createdAt: NOW - 40 * DAY_MS }),
+    ], '30d', NOW);
+
+    expect(insights.overall.total).toBe(3);
+    expect(insights.overall.resistRate).toBeCloseTo(2 / 3);
+    expect(insights.byCategory[DecisionType.SHOPPING]).toMatchObject({ total: 2, cancelled: 1, emergencySkips: 1, forfeitedMinutes: 30 });
+    expect(insights.byCategory[DecisionType.MESSAGE]).toMatchObject({ total: 1, resistRate: 1 });
+    expect(insights.byDayOfWeek[0]).toBe(3);
+    expect(insights.byHour[9]).toBe(3);
+  });
+});
+
+describe('computeMoneySaved', () => {
+  it('totals cancelled shopping amounts per currency and month', () => {
+    const saved = computeMoneySaved([
+      decision({ categoryId: DecisionType.SHOPPING, status: DecisionStatus.CANCELLED, amount: 100000, currency: 'IDR', resolvedAt: new Date(2026, 9, 2).getTime() }),
+      decision({ categoryId: DecisionType.SHOPPING, status: DecisionStatus.CANCELLED, amount: 50000, currency: 'IDR', resolvedAt: new Date(2026, 8, 20).getTime() }),
+      decision({ categoryId: DecisionType.SHOPPING, status: DecisionStatus.CANCELLED, amount: 25, currency: 'USD', resolvedAt: new Date(2026, 9, 5).getTime() }),
+      // Bought, not a shopping decision, or missing an amount: none of these count
+      decision({ categoryId: DecisionType.SHOPPING, status: DecisionStatus.COMPLETED, amount: 999, currency: 'IDR' }),
+      decision({ categoryId: DecisionType.OTHER, status: DecisionStatus.CANCELLED, amount: 999, currency: 'IDR' }),
+      decision({ categoryId: DecisionType.SHOPPING, status: DecisionStatus.CANCELLED, currency: 'IDR' }),
+    ]);
+
+    expect(saved.totals).toEqual({ IDR: 150000, USD: 25 });
+    expect(saved.byMonth).toEqual([
+      { month: '2026-10', totals: { IDR: 100000, USD: 25 } },
+      { month: '2026-09', totals: { IDR: 50000 } },
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import { Decision, DecisionStatus, DecisionType } from '../types';
+
+export type InsightsPeriod = '7d' | '30d' | '90d' | 'all';
+
+export interface OutcomeStats {
+  total: number;
+  completed: number;
+  cancelled: number;
+  resistRate: number; // Share of decisions that ended CANCELLED, 0..1
+  averageDurationMinutes: number;
+  emergencySkips: number;
+  emergencySkipRate: number; // Share of decisions whose wait was cut short, 0..1
+  forfeitedMinutes: number; // Waiting time thrown away by emergency skips
+}
+
+export interface Insights {
+  overall: OutcomeStats;
+  byCategory: Record<string, OutcomeStats>; // Keyed by category id; only categories with decisions appear
+  // heatmap[dayOfWeek][hour] counts captured impulses; day 0 is Sunday like Date#getDay
+  heatmap: number[][];
+  byHour: number[];
+  byDayOfWeek: number[];
+}
+
+export interface MoneySaved {
+  totals: Record<string, number>; // Keyed by currency code
+  byMonth: { month: string; totals: Record<string, number> }[]; // month is `YYYY-MM`, newest first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_DAYS: Record<InsightsPeriod, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  all: null,
+};
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 0 : part / whole);
+
+export const filterByPeriod = (decisions: Decision[], period: InsightsPeriod, now: number): Decision[] => {
+  const days = PERIOD_DAYS[period];
+  if (days === null) return decisions;
+  const since = now - days * DAY_MS;
+  return decisions.filter(d => d.createdAt >= since && d.createdAt <= now);
+};
+
+export const computeOutcomeStats = (decisions: Decision[]): OutcomeStats => {
+  const completed = decisions.filter(d => d.status === DecisionStatus.COMPLETED).length;
+  const cancelled = decisions.filter(d => d.status === DecisionStatus.CANCELLED).length;
+  const emergencySkips = decisions.filter(d => d.emergencySkippedAt !== undefined).length;
+  const totalDuration = decisions.reduce((sum, d) => sum + d.durationMinutes, 0);
+  const forfeitedMinutes = decisions.reduce((sum, d) => sum + (d.emergencyForfeitedMinutes ?? 0), 0);
+
+  return {
+    total: decisions.length,
+    completed,
+    cancelled,
+    resistRate: ratio(cancelled, completed + cancelled),
+    averageDurationMinutes: ratio(totalDuration, decisions.length),
+    emergencySkips,
+    emergencySkipRate: ratio(emergencySkips, decisions.length),
+    forfeitedMinutes,
+  };
+};
+
+export const computeCaptureHeatmap = (decisions: Decision[]): number[][] => {
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  decisions.forEach(d => {
+    const created = new Date(d.createdAt);
+    heatmap[created.getDay()][created.getHours()] += 1;
+  });
+  return heatmap;
+};
+
+export const computeInsights = (history: Decision[], period: InsightsPeriod, now: number): Insights => {
+  const decisions = filterByPeriod(history, period, now);
+  const heatmap = computeCaptureHeatmap(decisions);
+
+  const byCategory: Record<string, OutcomeStats> = {};
+  new Set(decisions.map(d => d.categoryId)).forEach(categoryId => {
+    byCategory[categoryId] = computeOutcomeStats(decisions.filter(d => d.categoryId === categoryId));
+  });
+
+  return {
+    overall: computeOutcomeStats(decisions),
+    byCategory,
+    heatmap,
+    byHour: heatmap[0].map((_, hour) => heatmap.reduce((sum, day) => sum + day[hour], 0)),
+    byDayOfWeek: heatmap.map(day => day.reduce((sum, count) => sum + count, 0)),
+  };
+};
+
+const monthKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Money "not spent": amounts of SHOPPING impulses the user ended up cancelling
+export const computeMoneySaved = (history: Decision[]): MoneySaved => {
+  const totals: Record<string, number> = {};
+  const months = new Map<string, Record<string, number>>();
+
+  history
+    .filter(d => d.categoryId === DecisionType.SHOPPING && d.status === DecisionStatus.CANCELLED)
+    .filter(d => d.amount !== undefined && d.amount > 0 && d.currency)
+    .forEach(d => {
+      const currency = d.currency as string;
+      const month = monthKey(d.resolvedAt ?? d.createdAt);
+      const monthTotals = months.get(month) ?? {};
+      totals[currency] = (totals[currency] ?? 0) + (d.amount as number);
+      monthTotals[currency] = (monthTotals[currency] ?? 0) + (d.amount as number);
+      months.set(month, monthTotals);
+    });
+
+  return {
+    totals,
+    byMonth: Array.from(months.entries())
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([month, monthTotals]) => ({ month, totals: monthTotals })),
+  };
+};
@@ -0,0 +1,253 @@
+import { createContext, useContext } from 'react';
+
+// The app lock guards a random data key that encrypts private decision fields
+// (see encryptedRepository.ts). The key is stored only in wrapped form: once
+// under a key derived from the PIN, and optionally once under a secret from a
+// platform authenticator (WebAuthn PRF). Forgetting the PIN without biometric
+// unlock set up means the sealed text can't be recovered.
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+export const MAX_ATTEMPTS = 5;
+const LOCKOUT_BASE_MS = 30 * 1000; // Doubles with every failure past MAX_ATTEMPTS
+const PBKDF2_ITERATIONS = 310000;
+
+// Re-lock after the app has been in the background this long
+export const RELOCK_AFTER_MS = 60 * 1000;
+
+// Kept out of the preferences record so resetting preferences can't drop the key
+const LOCK_KEY = 'secondthought_lock';
+
+interface WrappedKey {
+  iv: string;
+  wrapped: string;
+}
+
+interface LockRecord {
+  version: 1;
+  pin: WrappedKey & { salt: string; iterations: number };
+  webauthn?: WrappedKey & { credentialId: string; prfSalt: string };
+  failedAttempts: number;
+  lockedUntil: number | null;
+}
+
+// `key` is null when the PIN was wrong or entry is blocked until `lockedUntil`
+export interface UnlockResult {
+  key: CryptoKey | null;
+  attemptsLeft: number;
+  lockedUntil: number | null;
+}
+
+// --- Encoding ---
+
+export const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  // Chunked: spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const randomBytes = (length: number): Uint8Array<ArrayBuffer> =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+// --- Record ---
+
+const readRecord = (): LockRecord | null => {
+  try {
+    const record = JSON.parse(localStorage.getItem(LOCK_KEY) ?? 'null');
+    return record?.version === 1 && record.pin ? record : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeRecord = (record: LockRecord) => localStorage.setItem(LOCK_KEY, JSON.stringify(record));
+
+export const isLockEnabled = (): boolean => readRecord() !== null;
+
+export const hasBiometricUnlock = (): boolean => !!readRecord()?.webauthn;
+
+export const getLockout = (): number | null => {
+  const lockedUntil = readRecord()?.lockedUntil ?? null;
+  return lockedUntil !== null && lockedUntil > Date.now() ? lockedUntil : null;
+};
+
+// --- Keys ---
+
+const deriveKeyFromPin = async (pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const wrap = async (dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<WrappedKey> => {
+  const iv = randomBytes(12);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return { iv: toBase64(iv), wrapped: toBase64(wrapped) };
+};
+
+// Extractable so it can be wrapped again when biometric unlock is added later
+const unwrap = (entry: WrappedKey, wrappingKey: CryptoKey): Promise<CryptoKey> =>
+  crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(entry.wrapped),
+    wrappingKey,
+    { name: 'AES-GCM', iv: fromBase64(entry.iv) },
+    { name: 'AES-GCM' },
+    true,
+    ['encrypt', 'decrypt', 'wrapKey']
+  );
+
+// Returns the new data key; the caller seals the existing records with it
+export const enableLock = async (pin: string): Promise<CryptoKey> => {
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const salt = randomBytes(16);
+  const pinKey = await deriveKeyFromPin(pin, salt, PBKDF2_ITERATIONS);
+
+  writeRecord({
+    version: 1,
+    pin: { ...await wrap(dataKey, pinKey), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS },
+    failedAttempts: 0,
+    lockedUntil: null,
+  });
+  return dataKey;
+};
+
+export const disableLock = (): void => localStorage.removeItem(LOCK_KEY);
+
+export const unlockWithPin = async (pin: string): Promise<UnlockResult> => {
+  const record = readRecord();
+  if (!record) return { key: null, attemptsLeft: 0, lockedUntil: null };
+
+  const lockedUntil = getLockout();
+  if (lockedUntil) return { key: null, attemptsLeft: 0, lockedUntil };
+
+  try {
+    const pinKey = await deriveKeyFromPin(pin, fromBase64(record.pin.salt), record.pin.iterations);
+    const key = await unwrap(record.pin, pinKey);
+    writeRecord({ ...record, failedAttempts: 0, lockedUntil: null });
+    return { key, attemptsLeft: MAX_ATTEMPTS, lockedUntil: null };
+  } catch {
+    // AES-GCM refuses to unwrap with the wrong key, which is how a wrong PIN shows up
+    const failedAttempts = record.failedAttempts + 1;
+    const lockout = failedAttempts >= MAX_ATTEMPTS ? Date.now() + LOCKOUT_BASE_MS * 2 ** (failedAttempts - MAX_ATTEMPTS) : null;
+    writeRecord({ ...record, failedAttempts, lockedUntil: lockout });
+    return { key: null, attemptsLeft: Math.max(0, MAX_ATTEMPTS - failedAttempts), lockedUntil: lockout };
+  }
+};
+
+// --- Biometric unlock (WebAuthn PRF) ---
+
+// PRF isn't in every TypeScript DOM lib yet
+type PrfExtension = { prf?: { enabled?: boolean; results?: { first?: BufferSource } } };
+
+export const isBiometricAvailable = async (): Promise<boolean> => {
+  if (typeof PublicKeyCredential === 'undefined') return false;
+  return PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable().catch(() => false);
+};
+
+const keyFromPrf = async (secret: BufferSource) => {
+  const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: new TextEncoder().encode('secondthought-app-lock') },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+// Asks the authenticator for the credential's PRF secret; null when it has none to give
+const requestPrfKey = async (credentialId: Uint8Array<ArrayBuffer>, prfSalt: Uint8Array<ArrayBuffer>): Promise<CryptoKey | null> => {
+  const assertion = await navigator.credentials.get({
+    publicKey: {
+      challenge: randomBytes(32),
+      allowCredentials: [{ type: 'public-key', id: credentialId }],
+      userVerification: 'required',
+      extensions: { prf: { eval: { first: prfSalt } } } as AuthenticationExtensionsClientInputs,
+    },
+  }) as PublicKeyCredential | null;
+  const secret = (assertion?.getClientExtensionResults() as PrfExtension | undefined)?.prf?.results?.first;
+  return secret ? keyFromPrf(secret) : null;
+};
+
+// False when the user cancels or the authenticator can't derive secrets
+export const enrollBiometric = async (dataKey: CryptoKey): Promise<boolean> => {
+  const record = readRecord();
+  if (!record) return false;
+
+  try {
+    const credential = await navigator.credentials.create({
+      publicKey: {
+        challenge: randomBytes(32),
+        rp: { name: 'SecondThought' },
+        user: { id: randomBytes(16), name: 'SecondThought', displayName: 'SecondThought' },
+        pubKeyCredParams: [{ type: 'public-key', alg: -7 }, { type: 'public-key', alg: -257 }],
+        authenticatorSelection: { authenticatorAttachment: 'platform', userVerification: 'required', residentKey: 'discouraged' },
+        extensions: { prf: {} } as AuthenticationExtensionsClientInputs,
+      },
+    }) as PublicKeyCredential | null;
+    if (!credential || !(credential.getClientExtensionResults() as PrfExtension).prf?.enabled) return false;
+
+    const credentialId = new Uint8Array(credential.rawId);
+    const prfSalt = randomBytes(32);
+    const prfKey = await requestPrfKey(credentialId, prfSalt);
+    if (!prfKey) return false;
+
+    writeRecord({ ...record, webauthn: { ...await wrap(dataKey, prfKey), credentialId: toBase64(credentialId), prfSalt: toBase64(prfSalt) } });
+    return true;
+  } catch (e) {
+    console.warn('Biometric unlock could not be set up', e);
+    return false;
+  }
+};
+
+export const removeBiometric = (): void => {
+  const record = readRecord();
+  if (record) writeRecord({ ...record, webauthn: undefined });
+};
+
+export const unlockWithBiometric = async (): Promise<CryptoKey | null> => {
+  const entry = readRecord()?.webauthn;
+  if (!entry) return null;
+
+  try {
+    const prfKey = await requestPrfKey(fromBase64(entry.credentialId), fromBase64(entry.prfSalt));
+    return prfKey ? await unwrap(entry, prfKey) : null;
+  } catch (e) {
+    console.warn('Biometric unlock failed', e);
+    return null;
+  }
+};
+
+// --- Context ---
+
+export interface AppLockContextValue {
+  enabled: boolean;
+  enable: (pin: string) => Promise<void>;
+  // Asks for the PIN again so an unlocked phone left on the table can't turn the lock off
+  disable: (pin: string) => Promise<UnlockResult>;
+  lockNow: () => void;
+  enrollBiometric: () => Promise<boolean>;
+}
+
+export const AppLockContext = createContext<AppLockContextValue | null>(null);
+
+export const useAppLock = (): AppLockContextValue => {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error("useAppLock must be used inside an AppLockContext provider");
+  }
+  return context;
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Decision, DecisionStatus, DecisionType, WishlistItem } from '../types';
+import { BACKUP_VERSION, BackupDocument, historyToCsv, importBackup, parseBackup } from './backup';
+import { createMemoryRepository } from './memoryRepository';
+import { describeProblem, problem } from './schema';
+
+const decision = (id: string, fields: Partial<Decision> = {}): Decision => ({
+  id,
+  categoryId: DecisionType.OTHER,
+  text: `Keputusan ${id}`,
+  startTime: 1000,
+  durationMinutes: 60,
+  endTime: 1000 + 60 * 60 * 1000,
+  status: DecisionStatus.COMPLETED,
+  createdAt: 1000,
+  ...fields,
+});
+
+const wishlistItem = (id: string): WishlistItem => ({
+  id,
+  name: 'Sepatu',
+  addedAt: 1000,
+  coolOffDays: 7,
+  recheckEveryDays: 3,
+  lastCheckedAt: 1000,
+  recheckCount: 0,
+});
+
+const backup = (fields: Partial<BackupDocument> = {}): BackupDocument => ({
+  app: 'secondthought',
+  version: BACKUP_VERSION,
+  exportedAt: 5000,
+  activeDecisions: [],
+  history: [],
+  categories: [],
+  wishlist: [],
+  ...fields,
+});
+
+describe('parseBackup', () => {
+  it('reads back what was exported', () => {
+    const exported = backup({ history: [decision('h1')], activeDecisions: [decision('a1', { status: DecisionStatus.WAITING })], wishlist: [wishlistItem('w1')] });
+    const { document, errors } = parseBackup(JSON.stringify(exported));
+    expect(errors).toEqual([]);
+    expect(document).toEqual(exported);
+  });
+
+  it('rejects files that are not a usable backup', () => {
+    expect(parseBackup('{ not json').document).toBeNull();
+    expect(parseBackup(JSON.stringify({ app: 'other' })).document).toBeNull();
+    expect(parseBackup(JSON.stringify({ ...backup(), version: BACKUP_VERSION + 1 })).document).toBeNull();
+  });
+
+  it('skips bad entries and reports why', () => {
+    const { document, errors } = parseBackup(JSON.stringify(backup({
+      history: [decision('h1'), { ...decision('h2'), id: '' }],
+      wishlist: [{ ...wishlistItem('w1'), url: 'javascript:alert(1)' }],
+    })));
+    expect(document?.history.map(d => d.id)).toEqual(['h1']);
+    expect(document?.wishlist).toEqual([]);
+    expect(errors).toEqual([
+      `history[1]: ${describeProblem(problem('missing', 'id'))}`,
+      `wishlist[0]: ${describeProblem(problem('notWebUrl', 'url'))}`,
+    ]);
+  });
+
+  it('upgrades v1 backups from before categories and the wishlist', () => {
+    const { categoryId, ...rest } = decision('h1');
+    const legacy = { ...rest, type: DecisionType.SHOPPING };
+    const { document, errors } = parseBackup(JSON.stringify({ app: 'secondthought', version: 1, exportedAt: 0, activeDecisions: [], history: [legacy] }));
+    expect(errors).toEqual([]);
+    expect(document?.history[0].categoryId).toBe(DecisionType.SHOPPING);
+    expect(document?.categories).toEqual([]);
+    expect(document?.wishlist).toEqual([]);
+  });
+});
+
+describe('importBackup', () => {
+  it('merges by id and keeps what is already stored', async () => {
+    const repository = createMemoryRepository({ history: [decision('h1', { text: 'lokal' })], active: [decision('a1')] });
+    await repository.saveWishlistItem(wishlistItem('w1'));
+
+    const report = await importBackup(repository, backup({
+      history: [decision('h1', { text: 'impor' }), decision('h2')],
+      // Already finished here, so it stays finished
+      activeDecisions: [decision('a1'), decision('h2'), decision('a2')],
+      wishlist: [wishlistItem('w1'), wishlistItem('w2')],
+    }));
+
+    expect(report).toEqual({ added: 3, skipped: 4 });
+    expect((await repository.getHistoryEntry('h1'))?.text).toBe('lokal');
+    expect((await repository.getActiveDecisions()).map(d => d.id).sort()).toEqual(['a1', 'a2']);
+    expect((await repository.getWishlist()).map(item => item.id)).toEqual(['w1', 'w2']);
+  });
+});
+
+describe('historyToCsv', () => {
+  it('writes one escaped row per decision under the header', () => {
+    const csv = historyToCsv([decision('h1', { text: 'Beli "sepatu", mungkin', finalNote: 'baris\nbaru' })], () => 'Lainnya');
+    const [header, row] = csv.split('\r\n');
+    expect(header.split(',').slice(0, 4)).toEqual(['id', 'category', 'status', 'text']);
+    expect(row).toContain('h1,Lainnya,COMPLETED,"Beli ""sepatu"", mungkin"');
+    expect(row).toContain('"baris\nbaru"');
+  });
+});
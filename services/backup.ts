@@ -0,0 +1,188 @@
+import { Category, Decision, ReflectionAnswer, WishlistItem } from '../types';
+import { describeProblem, isObject, upgradeCategoryRecord, upgradeDecisionRecord, validateCategory, validateDecision, validateWishlistItem } from './schema';
+import { DecisionRepository } from './repository';
+import { getLocale, translate } from './i18n';
+import { INTENSITY_MAX, answerToText } from './questionnaire';
+
+// v2 added categories and replaced Decision.type with categoryId; v3 added the wishlist
+export const BACKUP_VERSION = 3;
+
+export interface BackupDocument {
+  app: 'secondthought';
+  version: number;
+  exportedAt: number;
+  activeDecisions: Decision[];
+  history: Decision[];
+  categories: Category[];
+  wishlist: WishlistItem[];
+}
+
+export interface ImportReport {
+  added: number;
+  skipped: number; // Entries whose id was already present
+  errors: string[]; // Human readable description of every rejected entry
+}
+
+export const createBackup = async (repository: DecisionRepository): Promise<BackupDocument> => ({
+  app: 'secondthought',
+  version: BACKUP_VERSION,
+  exportedAt: Date.now(),
+  activeDecisions: await repository.getActiveDecisions(),
+  history: await repository.getHistory(),
+  categories: await repository.getCategories(),
+  wishlist: await repository.getWishlist(),
+});
+
+const CSV_COLUMNS = [
+  'id', 'category', 'status', 'text', 'reflectionText', 'reflectionAnswers', 'resultAnswers', 'finalNote', 'amount', 'currency',
+  'messageRecipient', 'message', 'messageOutcome', 'productUrl', 'durationMinutes', 'snoozeCount', 'emergencySkipped', 'emergencyForfeitedMinutes', 'emergencyReason', 'breathingCycles', 'breathingSeconds', 'urgeCheckIns', 'createdAt', 'startTime', 'endTime', 'resolvedAt',
+];
+
+const toIso = (timestamp?: number) => (timestamp ? new Date(timestamp).toISOString() : '');
+
+const escapeCsv = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatAnswers = (answers?: ReflectionAnswer[]) =>
+  answers?.map(answer => `${answer.question} ${answerToText(answer)}`).join('\n');
+
+// Flattened journal for spreadsheets; one row per resolved decision
+export const historyToCsv = (history: Decision[], categoryName: (categoryId: string) => string): string => {
+  const rows = history.map(d => [
+    d.id, categoryName(d.categoryId), d.status, d.text, d.reflectionText,
+    formatAnswers(d.reflectionAnswers), formatAnswers(d.resultAnswers), d.finalNote, d.amount, d.currency,
+    d.message?.recipient, d.message?.revisedBody ?? d.message?.body, d.message?.outcome, d.wishlist?.url, d.durationMinutes, d.snoozes?.length ?? 0, d.emergencySkippedAt ? 'yes' : 'no',
+    d.emergencyForfeitedMinutes?.toFixed(1), d.emergencyReason, d.breathingCycles, d.breathingSeconds,
+    d.checkIns?.map(c => `${toIso(c.answeredAt)} ${c.strength}/${INTENSITY_MAX}`).join('\n'),
+    toIso(d.createdAt), toIso(d.startTime), toIso(d.endTime), toIso(d.resolvedAt),
+  ].map(escapeCsv).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const parseBackup = (text: string): { document: BackupDocument | null; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { document: null, errors: [translate(getLocale(), 'backup.invalidJson')] };
+  }
+
+  if (!isObject(raw) || raw.app !== 'secondthought') {
+    return { document: null, errors: [translate(getLocale(), 'backup.notBackup')] };
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    return { document: null, errors: [translate(getLocale(), 'backup.unsupportedVersion', { version: String(raw.version) })] };
+  }
+
+  const errors: string[] = [];
+  const collect = (key: 'activeDecisions' | 'history'): Decision[] => {
+    const entries = raw[key];
+    if (!Array.isArray(entries)) {
+      errors.push(translate(getLocale(), 'backup.missingSection', { key }));
+      return [];
+    }
+    return entries.map(upgradeDecisionRecord).filter((entry, index): entry is Decision => {
+      const problem = validateDecision(entry);
+      if (problem) errors.push(`${key}[${index}]: ${describeProblem(problem)}`);
+      return !problem;
+    });
+  };
+
+  // Backups from before categories existed simply have none to restore
+  const collectCategories = (): Category[] => {
+    if (raw.categories === undefined && Number(raw.version) < 2) return [];
+    if (!Array.isArray(raw.categories)) {
+      errors.push(translate(getLocale(), 'backup.missingSection', { key: 'categories' }));
+      return [];
+    }
+    return raw.categories.map(upgradeCategoryRecord).filter((entry, index): entry is Category => {
+      const problem = validateCategory(entry);
+      if (problem) errors.push(`categories[${index}]: ${describeProblem(problem)}`);
+      return !problem;
+    });
+  };
+
+  const collectWishlist = (): WishlistItem[] => {
+    if (raw.wishlist === undefined && Number(raw.version) < 3) return [];
+    if (!Array.isArray(raw.wishlist)) {
+      errors.push(translate(getLocale(), 'backup.missingSection', { key: 'wishlist' }));
+      return [];
+    }
+    return raw.wishlist.filter((entry, index): entry is WishlistItem => {
+      const problem = validateWishlistItem(entry);
+      if (problem) errors.push(`wishlist[${index}]: ${describeProblem(problem)}`);
+      return !problem;
+    });
+  };
+
+  return {
+    document: {
+      app: 'secondthought',
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+      activeDecisions: collect('activeDecisions'),
+      history: collect('history'),
+      categories: collectCategories(),
+      wishlist: collectWishlist(),
+    },
+    errors,
+  };
+};
+
+// Merges by id; anything already stored wins over the imported copy.
+// Categories merge the same way but don't count towards the report.
+export const importBackup = async (repository: DecisionRepository, backup: BackupDocument): Promise<Omit<ImportReport, 'errors'>> => {
+  const categoryIds = new Set((await repository.getCategories()).map(c => c.id));
+  await repository.saveCategories(backup.categories.filter(c => !categoryIds.has(c.id)));
+
+  const historyIds = new Set((await repository.getHistory()).map(d => d.id));
+  const activeIds = new Set((await repository.getActiveDecisions()).map(d => d.id));
+  let added = 0;
+  let skipped = 0;
+
+  for (const decision of backup.history) {
+    if (historyIds.has(decision.id)) {
+      skipped += 1;
+      continue;
+    }
+    await repository.appendHistory(decision);
+    historyIds.add(decision.id);
+    added += 1;
+  }
+
+  for (const decision of backup.activeDecisions) {
+    if (historyIds.has(decision.id) || activeIds.has(decision.id)) {
+      skipped += 1;
+      continue;
+    }
+    await repository.saveActiveDecision(decision);
+    activeIds.add(decision.id);
+    added += 1;
+  }
+
+  const wishlistIds = new Set((await repository.getWishlist()).map(item => item.id));
+  for (const item of backup.wishlist) {
+    // Already bought or dropped here, or still on the list
+    if (historyIds.has(item.id) || wishlistIds.has(item.id)) {
+      skipped += 1;
+      continue;
+    }
+    await repository.saveWishlistItem(item);
+    wishlistIds.add(item.id);
+    added += 1;
+  }
+
+  return { added, skipped };
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking in the same tick can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
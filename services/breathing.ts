@@ -0,0 +1,62 @@
+import { BreathingPatternId } from './preferences';
+
+export type BreathPhaseKind = 'inhale' | 'holdIn' | 'exhale' | 'holdOut';
+
+export interface BreathPhase {
+  kind: BreathPhaseKind;
+  seconds: number;
+}
+
+export const BREATHING_PATTERNS: Record<BreathingPatternId, BreathPhase[]> = {
+  box: [
+    { kind: 'inhale', seconds: 4 },
+    { kind: 'holdIn', seconds: 4 },
+    { kind: 'exhale', seconds: 4 },
+    { kind: 'holdOut', seconds: 4 },
+  ],
+  '478': [
+    { kind: 'inhale', seconds: 4 },
+    { kind: 'holdIn', seconds: 7 },
+    { kind: 'exhale', seconds: 8 },
+  ],
+  coherent: [
+    { kind: 'inhale', seconds: 5 },
+    { kind: 'exhale', seconds: 5 },
+  ],
+};
+
+// Size of the guide circle at the end of each phase; holds keep the previous size
+export const PHASE_SCALE: Record<BreathPhaseKind, number> = { inhale: 1, holdIn: 1, exhale: 0.55, holdOut: 0.55 };
+
+export const cycleSeconds = (pattern: BreathPhase[]): number =>
+  pattern.reduce((sum, phase) => sum + phase.seconds, 0);
+
+// --- Cues ---
+
+// Rising tone to breathe in, falling to breathe out, a neutral one for holds
+const CUE_FREQUENCIES: Record<BreathPhaseKind, number> = { inhale: 528, holdIn: 440, exhale: 396, holdOut: 440 };
+
+let audioContext: AudioContext | null = null;
+
+export const playCue = (kind: BreathPhaseKind): void => {
+  try {
+    audioContext ??= new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    const now = audioContext.currentTime;
+
+    oscillator.frequency.value = CUE_FREQUENCIES[kind];
+    gain.gain.setValueAtTime(0.15, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.4);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(now);
+    oscillator.stop(now + 0.4);
+  } catch (e) {
+    console.warn('Breathing cue could not be played', e);
+  }
+};
+
+export const vibrateCue = (kind: BreathPhaseKind): void => {
+  // Not supported on iOS Safari; silently skipped there
+  navigator.vibrate?.(kind === 'inhale' || kind === 'exhale' ? 80 : [30, 60, 30]);
+};
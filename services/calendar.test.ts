@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Decision, DecisionStatus, DecisionType } from '../types';
+import { decisionsToCalendar, pendingDecisions, resultLink } from './calendar';
+
+const APP_URL = 'https://secondthought.app/';
+const END = Date.UTC(2026, 9, 18, 9, 30);
+
+const decision = (overrides: Partial<Decision> = {}): Decision => ({
+  id: 'd1',
+  categoryId: DecisionType.OTHER,
+  text: 'Rahasia',
+  startTime: END - 60 * 60 * 1000,
+  durationMinutes: 60,
+  endTime: END,
+  status: DecisionStatus.WAITING,
+  createdAt: END - 60 * 60 * 1000,
+  ...overrides,
+});
+
+const build = (d: Decision, category = 'Belanja') => decisionsToCalendar([d], () => category, APP_URL, END - 1000);
+
+// Joins folded lines back together, as calendar apps do when reading
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('decisionsToCalendar', () => {
+  it('writes every line with CRLF, including the last', () => {
+    const ics = build(decision());
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('describes the event by category, never by the decision text', () => {
+    const lines = unfold(build(decision()));
+    expect(lines).toContain('SUMMARY:SecondThought: time to decide (Belanja)');
+    expect(lines).toContain('DTSTART:20261018T093000Z');
+    expect(lines).toContain('DTEND:20261018T094500Z');
+    expect(lines).toContain(`URL:${resultLink(APP_URL, 'd1')}`);
+    expect(lines.join('\n')).not.toContain('Rahasia');
+  });
+
+  it('keeps the uid and counts snoozes as the sequence', () => {
+    const snoozed = decision({ snoozes: [{ snoozedAt: END, durationMinutes: 30 }, { snoozedAt: END, durationMinutes: 30 }] });
+    const lines = unfold(build(snoozed));
+    expect(lines).toContain('UID:d1@secondthought');
+    expect(lines).toContain('SEQUENCE:2');
+  });
+
+  it('escapes backslashes, semicolons, commas and newlines', () => {
+    const lines = unfold(build(decision(), 'a\\b;c,d\ne'));
+    expect(lines).toContain('SUMMARY:SecondThought: time to decide (a\\\\b\\;c\\,d\\ne)');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const category = 'Belanja 🛍️ '.repeat(12);
+    const ics = build(decision(), category);
+    const physical = ics.split('\r\n');
+    const encoder = new TextEncoder();
+
+    expect(physical.some(line => line.startsWith(' '))).toBe(true);
+    physical.forEach(line => {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toMatch(/[\uD800-\uDBFF]$|^ ?[\uDC00-\uDFFF]/);
+    });
+    expect(unfold(ics)).toContain(`SUMMARY:SecondThought: time to decide (${category})`);
+  });
+});
+
+describe('pendingDecisions', () => {
+  it('keeps waits that have not ended, soonest first', () => {
+    const later = decision({ id: 'later', endTime: END + 2000 });
+    const sooner = decision({ id: 'sooner', endTime: END + 1000 });
+    const done = decision({ id: 'done', endTime: END - 1000 });
+    expect(pendingDecisions([later, done, sooner], END).map(d => d.id)).toEqual(['sooner', 'later']);
+  });
+});
@@ -0,0 +1,84 @@
+import { Decision } from '../types';
+import { getLocale, translate } from './i18n';
+
+// iCalendar (RFC 5545) reminders for wait end times, generated on the device.
+// Events name the category but never the decision text: calendars sync to
+// other services, and the text may be sealed behind the app lock.
+
+const PRODUCT_ID = '-//SecondThought//Wait reminders//EN';
+const EVENT_MINUTES = 15;
+const MAX_LINE_OCTETS = 75;
+
+// 2026-10-18T09:30:00.000Z -> 20261018T093000Z
+const formatStamp = (timestamp: number) => new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Long lines continue on the next line after a single space; counted in UTF-8 octets
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines spend one octet on the leading space
+    if (octets + size > MAX_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// `appUrl` is the page the app runs on, without the hash
+export const resultLink = (appUrl: string, id: string) => `${appUrl}#/result/${id}`;
+
+const eventLines = (decision: Decision, category: string, appUrl: string, now: number): string[] => {
+  const locale = getLocale();
+  const link = resultLink(appUrl, decision.id);
+  const summary = translate(locale, 'calendar.summary', { category });
+  return [
+    'BEGIN:VEVENT',
+    // Stable per decision, with the snooze count as sequence, so importing again after a snooze moves the event
+    `UID:${decision.id}@secondthought`,
+    `SEQUENCE:${decision.snoozes?.length ?? 0}`,
+    `DTSTAMP:${formatStamp(now)}`,
+    `DTSTART:${formatStamp(decision.endTime)}`,
+    `DTEND:${formatStamp(decision.endTime + EVENT_MINUTES * 60 * 1000)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(translate(locale, 'calendar.description', { link }))}`,
+    `URL:${link}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'TRIGGER:PT0M',
+    `DESCRIPTION:${escapeText(summary)}`,
+    'END:VALARM',
+    'END:VEVENT',
+  ];
+};
+
+export const decisionsToCalendar = (
+  decisions: Decision[],
+  categoryName: (categoryId: string) => string,
+  appUrl: string,
+  now = Date.now()
+): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...decisions.flatMap(d => eventLines(d, categoryName(d.categoryId), appUrl, now)),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+
+// Decisions whose wait hasn't ended yet; finished ones have nothing left to remind about
+export const pendingDecisions = (decisions: Decision[], now: number): Decision[] =>
+  decisions.filter(d => d.endTime > now).sort((a, b) => a.endTime - b.endTime);
@@ -0,0 +1,46 @@
+import { Category, CategoryColor, DecisionType } from '../types';
+
+export const BUILT_IN_CATEGORIES: Category[] = [
+  { id: DecisionType.SHOPPING, name: '', icon: 'shopping_cart', color: 'green', order: 0 },
+  { id: DecisionType.MESSAGE, name: '', icon: 'chat_bubble', color: 'blue', order: 1 },
+  { id: DecisionType.WORK, name: '', icon: 'work', color: 'orange', order: 2 },
+  { id: DecisionType.FEELING, name: '', icon: 'favorite', color: 'rose', order: 3 },
+  { id: DecisionType.OTHER, name: '', icon: 'psychology', color: 'gray', order: 4 },
+];
+
+export const CATEGORY_COLORS: CategoryColor[] = ['green', 'blue', 'orange', 'rose', 'purple', 'yellow', 'teal', 'gray'];
+
+// A curated set of Material Symbols that read well at tile size
+export const CATEGORY_ICONS = [
+  'shopping_cart', 'chat_bubble', 'work', 'favorite', 'psychology', 'restaurant', 'local_cafe', 'sports_esports',
+  'smartphone', 'credit_card', 'flight', 'fitness_center', 'local_bar', 'smoking_rooms', 'school', 'home',
+  'directions_car', 'checkroom', 'movie', 'music_note', 'pets', 'mail', 'group', 'bolt',
+];
+
+// Delays offered when configuring a category's recommended and minimum wait
+export const CATEGORY_DURATION_OPTIONS = [5, 15, 30, 60, 120, 480, 24 * 60, 3 * 24 * 60, 7 * 24 * 60];
+
+export const isBuiltInCategory = (id: string): id is DecisionType =>
+  Object.values(DecisionType).includes(id as DecisionType);
+
+export const sortCategories = (categories: Category[]): Category[] =>
+  [...categories].sort((a, b) => a.order - b.order);
+
+export const createCategory = (existing: Category[]): Category => ({
+  id: crypto.randomUUID(),
+  name: '',
+  icon: CATEGORY_ICONS[0],
+  color: CATEGORY_COLORS[existing.length % CATEGORY_COLORS.length],
+  order: existing.reduce((max, c) => Math.max(max, c.order + 1), 0),
+});
+
+// Swaps a category with its neighbour and renumbers so `order` stays dense
+export const moveCategory = (categories: Category[], id: string, offset: -1 | 1): Category[] => {
+  const sorted = sortCategories(categories);
+  const from = sorted.findIndex(c => c.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= sorted.length) return sorted;
+
+  [sorted[from], sorted[to]] = [sorted[to], sorted[from]];
+  return sorted.map((c, order) => ({ ...c, order }));
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Decision, DecisionStatus, DecisionType } from '../types';
+import { dueCheckIn, planCheckIns, recordCheckIn, urgeSeries } from './checkIns';
+
+const HOUR = 60 * 60 * 1000;
+
+const decision = (overrides: Partial<Decision> = {}): Decision => ({
+  id: 'd1',
+  categoryId: DecisionType.OTHER,
+  text: 'Beli sepatu',
+  startTime: 0,
+  durationMinutes: 8 * 60,
+  endTime: 8 * HOUR,
+  status: DecisionStatus.WAITING,
+  createdAt: 0,
+  ...overrides,
+});
+
+describe('planCheckIns', () => {
+  it('skips waits that are off or shorter than an hour', () => {
+    expect(planCheckIns(0, 8 * HOUR, { mode: 'off', intervalHours: 2 })).toEqual([]);
+    expect(planCheckIns(0, 59 * 60 * 1000, { mode: 'quarters', intervalHours: 2 })).toEqual([]);
+  });
+
+  it('asks at a quarter, half and three quarters of the wait', () => {
+    expect(planCheckIns(1000, 1000 + 8 * HOUR, { mode: 'quarters', intervalHours: 2 }))
+      .toEqual([1000 + 2 * HOUR, 1000 + 4 * HOUR, 1000 + 6 * HOUR]);
+  });
+
+  it('asks every interval before the end, but not at it', () => {
+    expect(planCheckIns(0, 6 * HOUR, { mode: 'interval', intervalHours: 2 })).toEqual([2 * HOUR, 4 * HOUR]);
+  });
+
+  it('caps long waits at 24 check-ins', () => {
+    const times = planCheckIns(0, 30 * 24 * HOUR, { mode: 'interval', intervalHours: 1 });
+    expect(times).toHaveLength(24);
+    expect(times[23]).toBe(24 * HOUR);
+  });
+});
+
+describe('dueCheckIn', () => {
+  const scheduled = decision({ checkInSchedule: [2 * HOUR, 4 * HOUR, 6 * HOUR] });
+
+  it('is nothing before the first check-in', () => {
+    expect(dueCheckIn(scheduled, HOUR)).toBeNull();
+  });
+
+  it('asks only the latest one that has come due', () => {
+    expect(dueCheckIn(scheduled, 5 * HOUR)).toBe(4 * HOUR);
+  });
+
+  it('stays quiet once the latest one is answered', () => {
+    const answered = recordCheckIn(scheduled, 4 * HOUR, 6, 5 * HOUR);
+    expect(dueCheckIn(answered, 5 * HOUR)).toBeNull();
+    expect(dueCheckIn(answered, 6 * HOUR)).toBe(6 * HOUR);
+  });
+
+  it('ignores check-ins left after an early end', () => {
+    expect(dueCheckIn({ ...scheduled, endTime: 3 * HOUR }, 5 * HOUR)).toBe(2 * HOUR);
+    expect(dueCheckIn({ ...scheduled, endTime: 2 * HOUR }, 5 * HOUR)).toBeNull();
+  });
+});
+
+describe('urgeSeries', () => {
+  it('joins the intensity before, each check-in and the intensity after', () => {
+    const d = decision({
+      reflectionAnswers: [{ questionId: 'q0', question: 'Seberapa kuat?', kind: 'intensity', value: 8 }],
+      checkIns: [{ scheduledAt: 2 * HOUR, answeredAt: 3 * HOUR, strength: 5 }],
+      resultAnswers: [{ questionId: 'q0', question: 'Sekarang?', kind: 'intensity', value: 2 }],
+    });
+
+    expect(urgeSeries(d)).toEqual([
+      { at: 0, strength: 8 },
+      { at: 3 * HOUR, strength: 5 },
+      { at: 8 * HOUR, strength: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { Decision, ReflectionAnswer } from '../types';
+import { CheckInSettings } from './preferences';
+
+// Shorter waits only get the prompt at the end
+export const MIN_CHECK_IN_WAIT_MINUTES = 60;
+
+// Caps interval mode so a month-long wait every two hours doesn't mean hundreds of prompts
+const MAX_CHECK_INS = 24;
+const QUARTERS = [0.25, 0.5, 0.75];
+
+export const planCheckIns = (startTime: number, endTime: number, settings: CheckInSettings): number[] => {
+  const length = endTime - startTime;
+  if (settings.mode === 'off' || length < MIN_CHECK_IN_WAIT_MINUTES * 60 * 1000) return [];
+  if (settings.mode === 'quarters') return QUARTERS.map(fraction => Math.round(startTime + length * fraction));
+
+  const step = settings.intervalHours * 60 * 60 * 1000;
+  const times: number[] = [];
+  for (let time = startTime + step; time < endTime && times.length < MAX_CHECK_INS; time += step) times.push(time);
+  return times;
+};
+
+// The latest check-in that has come due, unless it was answered. Missed earlier ones
+// are skipped: only how the urge feels now is worth asking about.
+export const dueCheckIn = (decision: Decision, now: number): number | null => {
+  const due = (decision.checkInSchedule ?? []).filter(time => time <= now && time < decision.endTime);
+  const latest = due[due.length - 1];
+  if (latest === undefined || decision.checkIns?.some(c => c.scheduledAt === latest)) return null;
+  return latest;
+};
+
+export const recordCheckIn = (decision: Decision, scheduledAt: number, strength: number, now: number): Decision => ({
+  ...decision,
+  checkIns: [...(decision.checkIns ?? []), { scheduledAt, answeredAt: now, strength }],
+});
+
+export interface UrgePoint {
+  at: number;
+  strength: number;
+}
+
+const intensityOf = (answers?: ReflectionAnswer[]): number | null => {
+  const answer = answers?.find(a => a.kind === 'intensity');
+  return answer?.kind === 'intensity' ? answer.value : null;
+};
+
+// The urge over the wait: the intensity given before it, each check-in, and the re-check at the end
+export const urgeSeries = (decision: Decision, resultAnswers = decision.resultAnswers): UrgePoint[] => {
+  const points: UrgePoint[] = [];
+  const before = intensityOf(decision.reflectionAnswers);
+  if (before !== null) points.push({ at: decision.createdAt, strength: before });
+  (decision.checkIns ?? []).forEach(c => points.push({ at: c.answeredAt, strength: c.strength }));
+  const after = intensityOf(resultAnswers);
+  if (after !== null) points.push({ at: Math.max(decision.endTime, points[points.length - 1]?.at ?? 0), strength: after });
+  return points;
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnnouncedExpirations, Clock, CountdownState, createAnnouncedExpirations, createCountdown, getCountdownState } from './countdown';
+
+// Timers only fire when the test says so, possibly late, like a throttled tab
+const createFakeClock = (start: number) => {
+  let now = start;
+  let nextHandle = 0;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      timers.set(++nextHandle, { at: now + ms, callback });
+      return nextHandle;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    },
+  };
+
+  return {
+    clock,
+    pending: () => Array.from(timers.values()).map(timer => timer.at - now),
+    // Moves the clock, then fires whatever came due (`lateBy` simulates a timer that wakes up late)
+    advance: (ms: number, lateBy = 0) => {
+      now += ms + lateBy;
+      Array.from(timers.entries())
+        .filter(([, timer]) => timer.at <= now - lateBy)
+        .forEach(([handle, timer]) => {
+          timers.delete(handle);
+          timer.callback();
+        });
+    },
+    // A sleeping device: time passes and no timer runs
+    sleep: (ms: number) => {
+      now += ms;
+    },
+  };
+};
+
+const START = 1_000_000;
+
+const start = (durationMs: number, clock: Clock, announced: AnnouncedExpirations = new Set<string>()) => {
+  const ticks: CountdownState[] = [];
+  const onExpire = vi.fn();
+  const countdown = createCountdown({
+    key: 'd1',
+    startTime: START,
+    endTime: START + durationMs,
+    onTick: state => ticks.push(state),
+    onExpire,
+    clock,
+    events: null,
+    announced,
+  });
+  return { countdown, ticks, onExpire, last: () => ticks[ticks.length - 1] };
+};
+
+describe('getCountdownState', () => {
+  it('splits the remaining time and reports progress', () => {
+    const state = getCountdownState(0, 2 * 60 * 60 * 1000, 30 * 60 * 1000 + 500);
+    expect(state.timeLeft).toEqual({ h: 1, m: 29, s: 59 });
+    expect(state.progress).toBeCloseTo(25, 1);
+    expect(state.expired).toBe(false);
+  });
+
+  it('clamps once the end has passed', () => {
+    expect(getCountdownState(0, 1000, 5000)).toMatchObject({ remainingMs: 0, progress: 100, expired: true });
+  });
+});
+
+describe('createCountdown', () => {
+  it('does not drift when timers fire late', () => {
+    const fake = createFakeClock(START);
+    const { last } = start(10_000, fake.clock);
+
+    // Every wake-up is 300ms late; the reading still comes from the clock
+    for (let i = 0; i < 5; i++) fake.advance(fake.pending()[0], 300);
+
+    expect(last().remainingMs).toBe(10_000 - (fake.clock.now() - START));
+    // The next wake-up lands back on a whole second
+    expect((last().remainingMs - fake.pending()[0]) % 1000).toBe(0);
+  });
+
+  it('catches up after the device sleeps through the end', () => {
+    const fake = createFakeClock(START);
+    const { countdown, onExpire, last } = start(60_000, fake.clock);
+
+    fake.sleep(5 * 60_000);
+    countdown.refresh();
+
+    expect(last().expired).toBe(true);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(fake.pending()).toEqual([]);
+  });
+
+  it('expires exactly at the end time', () => {
+    const fake = createFakeClock(START);
+    const { onExpire, last } = start(2500, fake.clock);
+
+    fake.advance(500);
+    expect(last().timeLeft.s).toBe(2);
+    fake.advance(1000);
+    fake.advance(1000);
+
+    expect(fake.clock.now()).toBe(START + 2500);
+    expect(last().expired).toBe(true);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it('announces an expiry once per key, even across remounts', () => {
+    const fake = createFakeClock(START + 10_000);
+    const announced = new Set<string>();
+
+    const first = start(1000, fake.clock, announced);
+    const second = start(1000, fake.clock, announced);
+    first.countdown.refresh();
+
+    expect(first.onExpire).toHaveBeenCalledTimes(1);
+    expect(second.onExpire).not.toHaveBeenCalled();
+  });
+
+  it('does not announce again after a reload', () => {
+    const fake = createFakeClock(START + 10_000);
+    const stored = new Map<string, string>();
+    const storage = { getItem: (key: string) => stored.get(key) ?? null, setItem: (key: string, value: string) => { stored.set(key, value); } };
+
+    const before = start(1000, fake.clock, createAnnouncedExpirations(storage));
+    // A fresh page reads what the previous one stored
+    const after = start(1000, fake.clock, createAnnouncedExpirations(storage));
+
+    expect(before.onExpire).toHaveBeenCalledTimes(1);
+    expect(after.onExpire).not.toHaveBeenCalled();
+  });
+
+  it('stops ticking once stopped', () => {
+    const fake = createFakeClock(START);
+    const { countdown, ticks } = start(10_000, fake.clock);
+
+    countdown.stop();
+    const count = ticks.length;
+    fake.advance(5000);
+    countdown.refresh();
+
+    expect(ticks).toHaveLength(count);
+    expect(fake.pending()).toEqual([]);
+  });
+});
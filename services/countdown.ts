@@ -0,0 +1,164 @@
+// Countdown engine for waiting decisions. All state is derived from the decision's
+// start/end timestamps and the current clock reading, so throttled timers, sleep/wake
+// and wall-clock changes only delay a refresh; they never make the countdown drift.
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle as number),
+};
+
+export interface CountdownState {
+  remainingMs: number;
+  progress: number; // 0..100
+  timeLeft: { h: number; m: number; s: number };
+  expired: boolean;
+}
+
+export const getCountdownState = (startTime: number, endTime: number, now: number): CountdownState => {
+  const remainingMs = Math.max(0, endTime - now);
+  const totalDuration = endTime - startTime;
+  const progress = totalDuration <= 0
+    ? 100
+    : Math.min(100, Math.max(0, 100 - (remainingMs / totalDuration) * 100));
+
+  return {
+    remainingMs,
+    progress,
+    timeLeft: {
+      h: Math.floor(remainingMs / (1000 * 60 * 60)),
+      m: Math.floor((remainingMs % (1000 * 60 * 60)) / (1000 * 60)),
+      s: Math.floor((remainingMs % (1000 * 60)) / 1000),
+    },
+    expired: remainingMs === 0,
+  };
+};
+
+// Expirations already announced, keyed by `CountdownOptions.key`. Kept in storage so a reload
+// or reopen on a wait that already ended doesn't ring a second time.
+export interface AnnouncedExpirations {
+  has(key: string): boolean;
+  add(key: string): void;
+}
+
+const ANNOUNCED_KEY = 'secondthought_announced';
+const MAX_ANNOUNCED = 100; // Old keys can't come back, so only recent ones are worth keeping
+
+export const createAnnouncedExpirations = (storage: Pick<Storage, 'getItem' | 'setItem'> | null): AnnouncedExpirations => {
+  const read = (): string[] => {
+    try {
+      const keys = JSON.parse(storage?.getItem(ANNOUNCED_KEY) ?? '[]');
+      return Array.isArray(keys) ? keys : [];
+    } catch {
+      return [];
+    }
+  };
+  // Also kept in memory for when storage is unavailable or full
+  const seen = new Set(read());
+
+  return {
+    has: (key) => seen.has(key) || read().includes(key),
+    add: (key) => {
+      seen.add(key);
+      try {
+        storage?.setItem(ANNOUNCED_KEY, JSON.stringify([...read().filter(k => k !== key), key].slice(-MAX_ANNOUNCED)));
+      } catch (e) {
+        console.warn('Could not remember the announced expiry', e);
+      }
+    },
+  };
+};
+
+const announcedExpirations = createAnnouncedExpirations(typeof localStorage !== 'undefined' ? localStorage : null);
+
+export interface CountdownOptions {
+  // Identifies one wait, e.g. `${decision.id}:${decision.endTime}`; a snooze gets a new key
+  key: string;
+  startTime: number;
+  endTime: number;
+  onTick?: (state: CountdownState) => void;
+  // Called at most once per key, even across remounts
+  onExpire?: (state: CountdownState) => void;
+  clock?: Clock;
+  // Where visibility and wake events come from; pass null to opt out (e.g. in tests)
+  events?: CountdownEventSources | null;
+  announced?: AnnouncedExpirations;
+}
+
+export interface CountdownEventSources {
+  document: Pick<Document, 'addEventListener' | 'removeEventListener' | 'visibilityState'>;
+  window: Pick<Window, 'addEventListener' | 'removeEventListener'>;
+}
+
+const browserEvents = (): CountdownEventSources | null =>
+  typeof window !== 'undefined' && typeof document !== 'undefined' ? { document, window } : null;
+
+export interface Countdown {
+  refresh(): void;
+  stop(): void;
+}
+
+export const createCountdown = ({
+  key,
+  startTime,
+  endTime,
+  onTick,
+  onExpire,
+  clock = systemClock,
+  events = browserEvents(),
+  announced = announcedExpirations,
+}: CountdownOptions): Countdown => {
+  let handle: unknown = null;
+  let stopped = false;
+
+  const refresh = () => {
+    if (stopped) return;
+    clock.clearTimeout(handle);
+
+    const state = getCountdownState(startTime, endTime, clock.now());
+    onTick?.(state);
+
+    if (state.expired) {
+      if (!announced.has(key)) {
+        announced.add(key);
+        onExpire?.(state);
+      }
+      return;
+    }
+
+    // Wake up exactly when the displayed second changes, never past the end
+    const untilNextSecond = state.remainingMs % 1000 || 1000;
+    handle = clock.setTimeout(refresh, Math.min(untilNextSecond, state.remainingMs));
+  };
+
+  // Background tabs get their timers throttled and sleeping devices skip them entirely,
+  // so re-read the clock as soon as the page is visible again.
+  const handleVisibility = () => {
+    if (events?.document.visibilityState === 'visible') refresh();
+  };
+
+  events?.document.addEventListener('visibilitychange', handleVisibility);
+  events?.document.addEventListener('resume', refresh);
+  events?.window.addEventListener('pageshow', refresh);
+  events?.window.addEventListener('focus', refresh);
+
+  refresh();
+
+  return {
+    refresh,
+    stop: () => {
+      stopped = true;
+      clock.clearTimeout(handle);
+      events?.document.removeEventListener('visibilitychange', handleVisibility);
+      events?.document.removeEventListener('resume', refresh);
+      events?.window.removeEventListener('pageshow', refresh);
+      events?.window.removeEventListener('focus', refresh);
+    },
+  };
+};
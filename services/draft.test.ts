@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Decision } from '../types';
+import { createDraftDecision } from './repository';
+import { DurationBounds, canEnterStep, durationBounds, firstIncompleteStep } from './draft';
+
+const BOUNDS: DurationBounds = { minMinutes: 5, maxMinutes: 7 * 24 * 60 };
+
+const draft = (fields: Partial<Decision> = {}): Decision => ({ ...createDraftDecision(), ...fields });
+
+describe('firstIncompleteStep', () => {
+  it('starts a fresh draft at type selection', () => {
+    expect(firstIncompleteStep(draft(), BOUNDS)).toBe('/type');
+  });
+
+  it('walks through the steps as answers are filled in', () => {
+    expect(firstIncompleteStep(draft({ categoryId: 'SHOPPING' }), BOUNDS)).toBe('/input');
+    expect(firstIncompleteStep(draft({ categoryId: 'SHOPPING', text: '   ' }), BOUNDS)).toBe('/input');
+    expect(firstIncompleteStep(draft({ categoryId: 'SHOPPING', text: 'Sepatu' }), BOUNDS)).toBe('/delay');
+    expect(firstIncompleteStep(draft({ categoryId: 'SHOPPING', text: 'Sepatu', durationMinutes: 60 }), BOUNDS)).toBe('/reflection');
+  });
+
+  it('sends a duration outside the bounds back to the delay step', () => {
+    const filled = { categoryId: 'SHOPPING', text: 'Sepatu' };
+    expect(firstIncompleteStep(draft({ ...filled, durationMinutes: 4 }), BOUNDS)).toBe('/delay');
+    expect(firstIncompleteStep(draft({ ...filled, durationMinutes: 8 * 24 * 60 }), BOUNDS)).toBe('/delay');
+  });
+});
+
+describe('canEnterStep', () => {
+  it('allows the first incomplete step and everything before it', () => {
+    const typed = draft({ categoryId: 'MESSAGE', text: 'Balas chat' });
+    expect(canEnterStep(typed, '/type', BOUNDS)).toBe(true);
+    expect(canEnterStep(typed, '/input', BOUNDS)).toBe(true);
+    expect(canEnterStep(typed, '/delay', BOUNDS)).toBe(true);
+    expect(canEnterStep(typed, '/reflection', BOUNDS)).toBe(false);
+  });
+
+  it('keeps a deep link from skipping type selection', () => {
+    expect(canEnterStep(draft(), '/input', BOUNDS)).toBe(false);
+  });
+});
+
+describe('durationBounds', () => {
+  const durations = { minMinutes: 1, maxMinutes: 24 * 60 };
+
+  it('lets a category raise the minimum from settings', () => {
+    expect(durationBounds({ minDurationMinutes: 60 }, durations)).toEqual({ minMinutes: 60, maxMinutes: 24 * 60 });
+  });
+
+  it('never goes below the settings or a minute', () => {
+    expect(durationBounds({ minDurationMinutes: 0 }, { ...durations, minMinutes: 10 }).minMinutes).toBe(10);
+    expect(durationBounds(null, { ...durations, minMinutes: 0 }).minMinutes).toBe(1);
+  });
+});
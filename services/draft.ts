@@ -0,0 +1,35 @@
+import { Category, Decision } from '../types';
+import { DurationLimits } from './preferences';
+
+// The new-decision flow in order; each step needs everything before it filled in
+export const DRAFT_STEPS = ['/type', '/input', '/delay', '/reflection'] as const;
+export type DraftStep = typeof DRAFT_STEPS[number];
+
+export interface DurationBounds {
+  minMinutes: number;
+  maxMinutes: number;
+}
+
+// Limits come from settings; a category can only raise the minimum
+export const durationBounds = (category: Pick<Category, 'minDurationMinutes'> | null, durations: DurationLimits): DurationBounds => ({
+  minMinutes: Math.max(1, category?.minDurationMinutes ?? 0, durations.minMinutes),
+  maxMinutes: durations.maxMinutes,
+});
+
+// Where the user has to pick up: the first step whose answer the draft is still missing.
+// A duration outside the current bounds (say, the category minimum was raised since) counts as missing.
+export const firstIncompleteStep = (draft: Decision, bounds: DurationBounds): DraftStep => {
+  if (!draft.categoryId) return '/type';
+  if (!draft.text.trim()) return '/input';
+  if (!(draft.durationMinutes >= bounds.minMinutes && draft.durationMinutes <= bounds.maxMinutes)) return '/delay';
+  return '/reflection';
+};
+
+export const canEnterStep = (draft: Decision, step: DraftStep, bounds: DurationBounds): boolean =>
+  DRAFT_STEPS.indexOf(step) <= DRAFT_STEPS.indexOf(firstIncompleteStep(draft, bounds));
+
+// Only drafts with something typed are worth offering to resume
+export const hasDraftProgress = (draft: Decision): boolean => draft.text.trim().length > 0;
+
+// Autosave waits for a pause in typing before writing
+export const DRAFT_SAVE_DELAY_MS = 400;
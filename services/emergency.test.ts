@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Decision, DecisionStatus, DecisionType } from '../types';
+import { endedBySkip, forfeitedMinutes, skipDecision } from './emergency';
+
+const MINUTE = 60 * 1000;
+const START = 1_000_000;
+
+const waiting: Decision = {
+  id: 'd1',
+  categoryId: DecisionType.OTHER,
+  text: 'Beli sepatu',
+  startTime: START,
+  durationMinutes: 60,
+  endTime: START + 60 * MINUTE,
+  status: DecisionStatus.WAITING,
+  createdAt: START,
+};
+
+describe('skipDecision', () => {
+  it('ends the wait now and records what was given up', () => {
+    const skipped = skipDecision(waiting, START + 15 * MINUTE, '  darurat  ');
+    expect(skipped).toMatchObject({ endTime: START + 15 * MINUTE, emergencySkippedAt: START + 15 * MINUTE, emergencyForfeitedMinutes: 45, emergencyReason: 'darurat' });
+    expect(forfeitedMinutes(waiting, START + 90 * MINUTE)).toBe(0);
+  });
+});
+
+describe('endedBySkip', () => {
+  it('is false for a wait that runs out on its own', () => {
+    expect(endedBySkip(waiting)).toBe(false);
+  });
+
+  it('is true right after a skip', () => {
+    expect(endedBySkip(skipDecision(waiting, START + 15 * MINUTE))).toBe(true);
+  });
+
+  it('is false again once a snooze starts a new wait after the skip', () => {
+    const skipped = skipDecision(waiting, START + 15 * MINUTE);
+    // What the result screen's snooze stores: the skip stays on record, the wait starts over
+    const snoozed = { ...skipped, status: DecisionStatus.SNOOZED, startTime: START + 20 * MINUTE, endTime: START + 50 * MINUTE };
+    expect(snoozed.emergencySkippedAt).toBeDefined();
+    expect(endedBySkip(snoozed)).toBe(false);
+  });
+});
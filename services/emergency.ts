@@ -0,0 +1,22 @@
+import { Decision } from '../types';
+
+export const MIN_JUSTIFICATION_LENGTH = 15;
+export const HOLD_TO_CONFIRM_MS = 3000;
+export const BREATHING_CYCLES = 3; // Of the user's chosen breathing pattern
+
+// Waiting time thrown away by ending the pause at `now`
+export const forfeitedMinutes = (decision: Decision, now: number): number =>
+  Math.max(0, decision.endTime - now) / 60000;
+
+export const skipDecision = (decision: Decision, now: number, reason?: string): Decision => ({
+  ...decision,
+  endTime: now,
+  emergencySkippedAt: now,
+  emergencyForfeitedMinutes: forfeitedMinutes(decision, now),
+  emergencyReason: reason?.trim() || undefined,
+});
+
+// True while the current end time is the skip itself. A snooze afterwards starts a new wait
+// that ends normally, even though the skip stays on record.
+export const endedBySkip = (decision: Decision): boolean =>
+  decision.emergencySkippedAt !== undefined && decision.endTime === decision.emergencySkippedAt;
@@ -0,0 +1,90 @@
+import { Decision, SealedFields, WishlistItem } from '../types';
+import { DecisionRepository } from './repository';
+import { fromBase64, randomBytes, toBase64 } from './appLock';
+
+// Everything the user wrote; ids, timestamps, categories and amounts stay readable
+// so storage-level code (migrations, quarantine) keeps working on sealed records
+const DECISION_FIELDS = ['text', 'reflectionText', 'reflectionAnswers', 'resultAnswers', 'finalNote', 'emergencyReason', 'snoozes', 'checkIns', 'message', 'wishlist'] as const;
+const WISHLIST_FIELDS = ['name', 'url', 'notes'] as const;
+
+type Sealable = { id: string; sealed?: SealedFields };
+
+// `placeholder` fills required fields so sealed records still pass validation
+const sealFields = async <T extends Sealable>(record: T, fields: readonly (keyof T)[], placeholder: Partial<T>, key: CryptoKey): Promise<T> => {
+  const privateFields: Partial<T> = {};
+  const rest: T = { ...record };
+  for (const field of fields) {
+    privateFields[field] = record[field];
+    delete rest[field];
+  }
+
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(privateFields)));
+  return { ...rest, ...placeholder, sealed: { iv: toBase64(iv), data: toBase64(data) } };
+};
+
+const unsealFields = async <T extends Sealable>(record: T, key: CryptoKey): Promise<T> => {
+  // Written before the lock was turned on
+  if (!record.sealed) return record;
+
+  const { sealed, ...rest } = record;
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+    return { ...rest, ...JSON.parse(new TextDecoder().decode(plain)) };
+  } catch (e) {
+    // Leave it sealed rather than failing the whole list; it reads as an empty entry
+    console.error(`Could not unseal record ${record.id}`, e);
+    return record;
+  }
+};
+
+export const sealDecision = (decision: Decision, key: CryptoKey): Promise<Decision> =>
+  sealFields(decision, DECISION_FIELDS, { text: '' }, key);
+
+export const unsealDecision = (decision: Decision, key: CryptoKey): Promise<Decision> => unsealFields(decision, key);
+
+const sealWishlistItem = (item: WishlistItem, key: CryptoKey): Promise<WishlistItem> =>
+  sealFields(item, WISHLIST_FIELDS, { name: '' }, key);
+
+// Seals on the way in and unseals on the way out; screens never see sealed records
+export const createEncryptedRepository = (inner: DecisionRepository, key: CryptoKey): DecisionRepository => {
+  const seal = (decision: Decision) => sealDecision(decision, key);
+  const unseal = async (decision: Decision | null) => decision && unsealDecision(decision, key);
+  const unsealAll = <T extends Sealable>(records: T[]) => Promise.all(records.map(r => unsealFields(r, key)));
+
+  return {
+    ...inner,
+    getActiveDecisions: async () => unsealAll(await inner.getActiveDecisions()),
+    getActiveDecision: async (id) => unseal(await inner.getActiveDecision(id)),
+    saveActiveDecision: async (decision) => inner.saveActiveDecision(await seal(decision)),
+    getHistory: async () => unsealAll(await inner.getHistory()),
+    getHistoryEntry: async (id) => unseal(await inner.getHistoryEntry(id)),
+    appendHistory: async (decision) => inner.appendHistory(await seal(decision)),
+    archiveDecision: async (decision) => inner.archiveDecision(await seal(decision)),
+    rewriteHistory: async (decisions) => inner.rewriteHistory(await Promise.all(decisions.map(seal))),
+    getDraft: async () => unseal(await inner.getDraft()),
+    saveDraft: async (draft) => inner.saveDraft(await seal(draft)),
+    getWishlist: async () => unsealAll(await inner.getWishlist()),
+    saveWishlistItem: async (item) => inner.saveWishlistItem(await sealWishlistItem(item, key)),
+    archiveWishlistItem: async (id, decision) => inner.archiveWishlistItem(id, await seal(decision)),
+  };
+};
+
+// Re-encodes what is already stored when the lock is turned on (`seal`) or off
+export const resealStoredData = async (inner: DecisionRepository, key: CryptoKey, mode: 'seal' | 'unseal'): Promise<void> => {
+  const convert = async (decision: Decision) => {
+    const plain = await unsealDecision(decision, key);
+    return mode === 'seal' ? sealDecision(plain, key) : plain;
+  };
+
+  for (const decision of await inner.getActiveDecisions()) {
+    await inner.saveActiveDecision(await convert(decision));
+  }
+  await inner.rewriteHistory(await Promise.all((await inner.getHistory()).map(convert)));
+  const draft = await inner.getDraft();
+  if (draft) await inner.saveDraft(await convert(draft));
+  for (const item of await inner.getWishlist()) {
+    const plain = await unsealFields(item, key);
+    await inner.saveWishlistItem(mode === 'seal' ? await sealWishlistItem(plain, key) : plain);
+  }
+};
@@ -0,0 +1,103 @@
+import { createContext, useContext } from 'react';
+import { id } from '../locales/id';
+import { en } from '../locales/en';
+import { LOCALES, Locale, getPreferences, updatePreferences } from './preferences';
+
+// A message is either a plain string or one string per CLDR plural category.
+// `{name}` placeholders are filled from the params passed to `t`.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof id;
+export type Catalog = Record<MessageKey, Message>;
+export type TranslateParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+const CATALOGS: Record<Locale, Catalog> = { id, en };
+
+// BCP 47 tags used for Intl formatting
+export const INTL_LOCALES: Record<Locale, string> = {
+  id: 'id-ID',
+  en: 'en-US',
+};
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// Stored choice first, then the first browser language we have a catalog for
+export const detectLocale = (): Locale => {
+  const stored = getPreferences().locale;
+  if (stored) return stored;
+
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (base === 'in' || base === 'ms') return 'id'; // Legacy Indonesian code and Malay
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+};
+
+let currentLocale: Locale = detectLocale();
+// index.html ships with lang="id"; correct it as soon as we know better
+if (typeof document !== 'undefined') document.documentElement.lang = currentLocale;
+
+// For code outside React (notifications, import reports) that needs the active language
+export const getLocale = (): Locale => currentLocale;
+
+export const setLocale = (locale: Locale): void => {
+  currentLocale = locale;
+  updatePreferences({ locale });
+  document.documentElement.lang = locale;
+};
+
+// Numbers are formatted for the locale, so `{count}` renders as "1,5" in Indonesian
+const interpolate = (locale: Locale, template: string, params: TranslateParams = {}) =>
+  template.replace(/\{(\w+)\}/g, (match, name) => {
+    if (!(name in params)) return match;
+    const value = params[name];
+    return typeof value === 'number' ? new Intl.NumberFormat(INTL_LOCALES[locale]).format(value) : value;
+  });
+
+export const translate = (locale: Locale, key: MessageKey, params?: TranslateParams): string => {
+  const message = CATALOGS[locale][key] ?? CATALOGS.id[key];
+  if (typeof message === 'string') return interpolate(locale, message, params);
+
+  const count = Number(params?.count ?? 0);
+  const category = new Intl.PluralRules(INTL_LOCALES[locale]).select(count);
+  return interpolate(locale, message[category] ?? message.other, params);
+};
+
+export interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const useI18n = (): I18nContextValue => {
+  const i18n = useContext(I18nContext);
+  if (!i18n) {
+    throw new Error("useI18n must be used inside an I18nContext provider");
+  }
+  return i18n;
+};
+
+// --- Formatting ---
+
+export const formatDate = (locale: Locale, timestamp: number, options: Intl.DateTimeFormatOptions) =>
+  new Date(timestamp).toLocaleDateString(INTL_LOCALES[locale], options);
+
+export const formatTime = (locale: Locale, timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(INTL_LOCALES[locale], { hour: '2-digit', minute: '2-digit' });
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(INTL_LOCALES[locale], options).format(value);
+
+// Picks the largest whole unit, e.g. "90 minutes" -> "1.5 hours"
+export const formatDuration = (locale: Locale, minutes: number): string => {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  if (minutes < 60) return translate(locale, 'duration.minutes', { count: Math.round(minutes) });
+  if (minutes < 24 * 60) return translate(locale, 'duration.hours', { count: round(minutes / 60) });
+  return translate(locale, 'duration.days', { count: round(minutes / (24 * 60)) });
+};
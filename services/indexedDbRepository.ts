@@ -0,0 +1,195 @@
+import { Category, Decision, QuarantinedEntry, WishlistItem } from '../types';
+import { BUILT_IN_CATEGORIES, sortCategories } from './categories';
+import { DecisionRepository, sortHistory } from './repository';
+import { upgradeCategoryRecord, upgradeDecisionRecord, validateCategory, validateDecision, validateWishlistItem } from './schema';
+import * as Storage from './storage';
+
+const DB_NAME = 'secondthought';
+const DB_VERSION = 4;
+
+const ACTIVE_STORE = 'activeDecisions';
+const HISTORY_STORE = 'history';
+const QUARANTINE_STORE = 'quarantine';
+const META_STORE = 'meta';
+const CATEGORIES_STORE = 'categories';
+const WISHLIST_STORE = 'wishlist';
+
+const LEGACY_IMPORTED_KEY = 'legacyLocalStorageImported';
+const DRAFT_KEY = 'draft';
+
+type StoreName = typeof ACTIVE_STORE | typeof HISTORY_STORE | typeof QUARANTINE_STORE | typeof META_STORE | typeof CATEGORIES_STORE | typeof WISHLIST_STORE;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Rewrites every record of a store in place during a version change
+const rewriteRecords = (tx: IDBTransaction, storeName: StoreName, upgrade: (record: unknown) => unknown) => {
+  tx.objectStore(storeName).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const upgraded = upgrade(cursor.value);
+    if (upgraded !== cursor.value) cursor.update(upgraded);
+    cursor.continue();
+  };
+};
+
+// Upgrades run in order; the entry at index i upgrades the database from version i to i + 1.
+const UPGRADES: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    db.createObjectStore(ACTIVE_STORE, { keyPath: 'id' });
+    db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+    db.createObjectStore(META_STORE);
+  },
+  // v1 -> v2: seed the built-in categories and move decisions from `type` to `categoryId`
+  (db, tx) => {
+    const categories = db.createObjectStore(CATEGORIES_STORE, { keyPath: 'id' });
+    BUILT_IN_CATEGORIES.forEach(c => categories.put(c));
+    rewriteRecords(tx, ACTIVE_STORE, upgradeDecisionRecord);
+    rewriteRecords(tx, HISTORY_STORE, upgradeDecisionRecord);
+  },
+  // v2 -> v3: reflection questions and answers become typed (text, intensity, emotion, yes/no)
+  (_db, tx) => {
+    rewriteRecords(tx, ACTIVE_STORE, upgradeDecisionRecord);
+    rewriteRecords(tx, HISTORY_STORE, upgradeDecisionRecord);
+    rewriteRecords(tx, CATEGORIES_STORE, upgradeCategoryRecord);
+  },
+  // v3 -> v4: the shopping wishlist
+  (db) => {
+    db.createObjectStore(WISHLIST_STORE, { keyPath: 'id' });
+  },
+];
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        UPGRADES[version](req.result, req.transaction as IDBTransaction);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Copies whatever older versions left in localStorage into IndexedDB, exactly once.
+const importLegacyStorage = async (db: IDBDatabase): Promise<void> => {
+  const check = db.transaction(META_STORE, 'readonly');
+  if (await request(check.objectStore(META_STORE).get(LEGACY_IMPORTED_KEY))) return;
+
+  Storage.runMigrations();
+  const active = Storage.getDecisions();
+  const history = Storage.getHistory();
+  const quarantine = Storage.getQuarantine();
+
+  const tx = db.transaction([ACTIVE_STORE, HISTORY_STORE, QUARANTINE_STORE, META_STORE], 'readwrite');
+  active.forEach(d => tx.objectStore(ACTIVE_STORE).put(d));
+  history.forEach(d => tx.objectStore(HISTORY_STORE).put(d));
+  quarantine.forEach(entry => tx.objectStore(QUARANTINE_STORE).add(entry));
+  tx.objectStore(META_STORE).put(true, LEGACY_IMPORTED_KEY);
+  await transactionDone(tx);
+
+  Storage.clearAll();
+};
+
+export const createIndexedDbRepository = (): DecisionRepository => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().then(async db => {
+        await importLegacyStorage(db);
+        return db;
+      });
+    }
+    return dbPromise;
+  };
+
+  // Reads every record of a store (decisions unless told otherwise), moving anything that fails validation
+  // into quarantine so one bad record can't take the whole app down.
+  const readValid = async <T>(storeName: StoreName, validate: (record: unknown) => string | null = validateDecision): Promise<T[]> => {
+    const db = await getDb();
+    const tx = db.transaction([storeName, QUARANTINE_STORE], 'readwrite');
+    const store = tx.objectStore(storeName);
+    const records: unknown[] = await request(store.getAll());
+
+    const valid = records.filter((record): record is T => {
+      const problem = validate(record);
+      if (!problem) return true;
+
+      console.warn(`Quarantined unreadable entry from ${storeName}: ${problem}`);
+      const entry: QuarantinedEntry = { key: storeName, raw: JSON.stringify(record), reason: problem, quarantinedAt: Date.now() };
+      tx.objectStore(QUARANTINE_STORE).add(entry);
+      const id = (record as { id?: unknown } | null)?.id;
+      if (typeof id === 'string') store.delete(id);
+      return false;
+    });
+
+    await transactionDone(tx);
+    return valid;
+  };
+
+  const readOne = async (storeName: StoreName, id: string): Promise<Decision | null> => {
+    const db = await getDb();
+    const record = await request(db.transaction(storeName, 'readonly').objectStore(storeName).get(id));
+    return validateDecision(record) === null ? record : null;
+  };
+
+  const write = async (storeNames: StoreName[], apply: (tx: IDBTransaction) => void): Promise<void> => {
+    const db = await getDb();
+    const tx = db.transaction(storeNames, 'readwrite');
+    apply(tx);
+    await transactionDone(tx);
+  };
+
+  return {
+    getActiveDecisions: () => readValid<Decision>(ACTIVE_STORE),
+    getActiveDecision: (id) => readOne(ACTIVE_STORE, id),
+    saveActiveDecision: (decision) => write([ACTIVE_STORE], tx => tx.objectStore(ACTIVE_STORE).put(decision)),
+    removeActiveDecision: (id) => write([ACTIVE_STORE], tx => tx.objectStore(ACTIVE_STORE).delete(id)),
+    getHistory: async () => sortHistory(await readValid<Decision>(HISTORY_STORE)),
+    getHistoryEntry: (id) => readOne(HISTORY_STORE, id),
+    appendHistory: (decision) => write([HISTORY_STORE], tx => tx.objectStore(HISTORY_STORE).add(decision)),
+    archiveDecision: (decision) => write([ACTIVE_STORE, HISTORY_STORE], tx => {
+      tx.objectStore(HISTORY_STORE).add(decision);
+      tx.objectStore(ACTIVE_STORE).delete(decision.id);
+    }),
+    rewriteHistory: (decisions) => write([HISTORY_STORE], tx => {
+      decisions.forEach(d => tx.objectStore(HISTORY_STORE).put(d));
+    }),
+    getDraft: async () => {
+      const db = await getDb();
+      const record = await request(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(DRAFT_KEY));
+      // A broken draft isn't worth quarantining; the user just starts over
+      return validateDecision(record) === null ? record : null;
+    },
+    saveDraft: (draft) => write([META_STORE], tx => tx.objectStore(META_STORE).put(draft, DRAFT_KEY)),
+    clearDraft: () => write([META_STORE], tx => tx.objectStore(META_STORE).delete(DRAFT_KEY)),
+    getWishlist: async () =>
+      (await readValid<WishlistItem>(WISHLIST_STORE, validateWishlistItem)).sort((a, b) => a.addedAt - b.addedAt),
+    saveWishlistItem: (item) => write([WISHLIST_STORE], tx => tx.objectStore(WISHLIST_STORE).put(item)),
+    archiveWishlistItem: (id, decision) => write([WISHLIST_STORE, HISTORY_STORE], tx => {
+      tx.objectStore(HISTORY_STORE).add(decision);
+      tx.objectStore(WISHLIST_STORE).delete(id);
+    }),
+    getCategories: async () => sortCategories(await readValid<Category>(CATEGORIES_STORE, validateCategory)),
+    saveCategories: (categories: Category[]) => write([CATEGORIES_STORE], tx => {
+      categories.forEach(c => tx.objectStore(CATEGORIES_STORE).put(c));
+    }),
+    getQuarantine: async () => {
+      const db = await getDb();
+      return request(db.transaction(QUARANTINE_STORE, 'readonly').objectStore(QUARANTINE_STORE).getAll());
+    },
+    clearQuarantine: () => write([QUARANTINE_STORE], tx => tx.objectStore(QUARANTINE_STORE).clear()),
+  };
+};
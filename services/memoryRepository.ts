@@ -0,0 +1,63 @@
+import { Category, Decision, QuarantinedEntry, WishlistItem } from '../types';
+import { BUILT_IN_CATEGORIES, sortCategories } from './categories';
+import { DecisionRepository, sortHistory } from './repository';
+
+export const createMemoryRepository = (seed: { active?: Decision[]; history?: Decision[]; categories?: Category[] } = {}): DecisionRepository => {
+  const active = new Map((seed.active ?? []).map(d => [d.id, d]));
+  const history = new Map((seed.history ?? []).map(d => [d.id, d]));
+  const categories = new Map((seed.categories ?? BUILT_IN_CATEGORIES).map(c => [c.id, c]));
+  let quarantine: QuarantinedEntry[] = [];
+  let draft: Decision | null = null;
+  const wishlist = new Map<string, WishlistItem>();
+
+  const appendHistory = async (decision: Decision) => {
+    if (history.has(decision.id)) {
+      throw new Error(`Decision ${decision.id} is already in the history`);
+    }
+    history.set(decision.id, decision);
+  };
+
+  return {
+    getActiveDecisions: async () => Array.from(active.values()),
+    getActiveDecision: async (id) => active.get(id) ?? null,
+    saveActiveDecision: async (decision) => {
+      active.set(decision.id, decision);
+    },
+    removeActiveDecision: async (id) => {
+      active.delete(id);
+    },
+    getHistory: async () => sortHistory(Array.from(history.values())),
+    getHistoryEntry: async (id) => history.get(id) ?? null,
+    appendHistory,
+    archiveDecision: async (decision) => {
+      await appendHistory(decision);
+      active.delete(decision.id);
+    },
+    rewriteHistory: async (decisions) => {
+      decisions.forEach(d => history.set(d.id, d));
+    },
+    getDraft: async () => draft,
+    saveDraft: async (updated) => {
+      draft = updated;
+    },
+    clearDraft: async () => {
+      draft = null;
+    },
+    getWishlist: async () => Array.from(wishlist.values()).sort((a, b) => a.addedAt - b.addedAt),
+    saveWishlistItem: async (item) => {
+      wishlist.set(item.id, item);
+    },
+    archiveWishlistItem: async (id, decision) => {
+      await appendHistory(decision);
+      wishlist.delete(id);
+    },
+    getCategories: async () => sortCategories(Array.from(categories.values())),
+    saveCategories: async (updated) => {
+      updated.forEach(c => categories.set(c.id, c));
+    },
+    getQuarantine: async () => [...quarantine],
+    clearQuarantine: async () => {
+      quarantine = [];
+    },
+  };
+};
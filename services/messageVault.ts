@@ -0,0 +1,37 @@
+import { Decision, MessageDraft, MessageOutcome } from '../types';
+
+export const MESSAGE_OUTCOMES: readonly MessageOutcome[] = ['sent', 'rewritten', 'discarded'];
+
+// The message stays sealed until the wait is over, however the result screen was reached
+export const isVaultOpen = (decision: Decision, now: number): boolean => now >= decision.endTime;
+
+// Sending counts as a rewrite only if the words actually changed
+export const resolveMessage = (message: MessageDraft, revised: string, send: boolean): MessageDraft => {
+  if (!send) return { ...message, revisedBody: undefined, outcome: 'discarded' };
+  const rewritten = revised.trim() !== message.body.trim();
+  return { ...message, revisedBody: rewritten ? revised : undefined, outcome: rewritten ? 'rewritten' : 'sent' };
+};
+
+export const canShare = (): boolean => typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+export const copyMessage = async (decision: Decision, text: string): Promise<boolean> => {
+  if (!isVaultOpen(decision, Date.now())) return false;
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (e) {
+    console.warn('Message could not be copied', e);
+    return false;
+  }
+};
+
+// False when the share sheet was dismissed, which browsers report as an error
+export const shareMessage = async (decision: Decision, text: string): Promise<boolean> => {
+  if (!isVaultOpen(decision, Date.now()) || !canShare()) return false;
+  try {
+    await navigator.share({ text });
+    return true;
+  } catch {
+    return false;
+  }
+};
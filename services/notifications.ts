@@ -0,0 +1,128 @@
+import { Decision } from '../types';
+import { getLocale, translate } from './i18n';
+import { getPreferences } from './preferences';
+
+const SW_URL = '/sw.js';
+const PERIODIC_SYNC_TAG = 'secondthought-alarms';
+
+// Resolved at call time so alarms follow the language the user picked
+const copy = () => {
+  const locale = getLocale();
+  return {
+    title: translate(locale, 'notification.expiredTitle'),
+    body: translate(locale, 'notification.expiredBody'),
+    openLabel: translate(locale, 'notification.open'),
+    dismissLabel: translate(locale, 'notification.dismiss'),
+  };
+};
+
+const checkInCopy = () => {
+  const locale = getLocale();
+  return {
+    title: translate(locale, 'notification.checkInTitle'),
+    body: translate(locale, 'notification.checkInBody'),
+    openLabel: translate(locale, 'notification.checkInAnswer'),
+    dismissLabel: translate(locale, 'notification.dismiss'),
+  };
+};
+
+const isSupported = () => typeof window !== 'undefined' && 'serviceWorker' in navigator;
+
+export const registerServiceWorker = async (): Promise<void> => {
+  if (!isSupported()) return;
+
+  // Notification clicks on a page the worker doesn't control arrive as a message
+  navigator.serviceWorker.addEventListener('message', (event) => {
+    if (event.data?.type === 'OPEN_ROUTE') window.location.hash = event.data.hash;
+  });
+
+  try {
+    const registration = await navigator.serviceWorker.register(SW_URL);
+
+    // Lets Chromium wake the worker now and then to deliver overdue alarms
+    const periodicSync = (registration as ServiceWorkerRegistration & {
+      periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> }
+    }).periodicSync;
+    await periodicSync?.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60 * 1000 }).catch(() => undefined);
+  } catch (e) {
+    console.error("Service worker registration failed", e);
+  }
+};
+
+const postToWorker = async (message: unknown): Promise<void> => {
+  if (!isSupported()) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  (registration?.active ?? navigator.serviceWorker.controller)?.postMessage(message);
+};
+
+export type NotificationAccess = NotificationPermission | 'unsupported';
+
+export const getPermission = (): NotificationAccess =>
+  typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported';
+
+// Shows the browser prompt unless it was already answered
+export const askPermission = async (): Promise<NotificationAccess> => {
+  const permission = getPermission();
+  if (permission !== 'default') return permission;
+
+  try {
+    return await Notification.requestPermission();
+  } catch (e) {
+    console.error("Notification permission request failed", e);
+    return getPermission();
+  }
+};
+
+// Only asks when the user wants reminders and hasn't answered the browser prompt yet
+export const requestPermission = async (): Promise<NotificationAccess> =>
+  getPreferences().notifications.enabled ? askPermission() : getPermission();
+
+// Hands the end time to the service worker so the alarm fires even with the tab closed.
+// Upcoming check-ins go along as their own alarms, which open the waiting screen.
+export const scheduleAlarm = async (decision: Decision): Promise<void> => {
+  if (!getPreferences().notifications.enabled) return;
+  await postToWorker({
+    type: 'SCHEDULE_ALARM',
+    alarm: { id: decision.id, endTime: decision.endTime, ...copy() },
+  });
+
+  const now = Date.now();
+  for (const [idx, time] of (decision.checkInSchedule ?? []).entries()) {
+    if (time <= now) continue;
+    await postToWorker({
+      type: 'SCHEDULE_ALARM',
+      alarm: { id: `${decision.id}:checkin:${idx}`, decisionId: decision.id, kind: 'checkIn', endTime: time, ...checkInCopy() },
+    });
+  }
+};
+
+// Also drops the decision's check-in alarms
+export const cancelAlarm = (id: string): Promise<void> =>
+  postToWorker({ type: 'CANCEL_ALARM', id });
+
+// Shown by an open tab when the countdown ends. Goes through the service worker when
+// possible so it carries the same tag and actions as the background alarm.
+export const showExpiredNotification = async (decision: Decision): Promise<void> => {
+  if (getPermission() !== 'granted' || !getPreferences().notifications.enabled) return;
+
+  const { title, body, openLabel, dismissLabel } = copy();
+  try {
+    const registration = isSupported() ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, {
+        body,
+        icon: '/favicon.svg',
+        tag: `decision-${decision.id}`,
+        data: { id: decision.id },
+        actions: [
+          { action: 'open', title: openLabel },
+          { action: 'dismiss', title: dismissLabel },
+        ],
+      } as NotificationOptions);
+    } else {
+      new Notification(title, { body, icon: '/favicon.svg', tag: `decision-${decision.id}` });
+    }
+  } catch (e) {
+    console.error("Failed to create notification", e);
+  }
+};
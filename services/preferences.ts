@@ -0,0 +1,216 @@
+// Every user-tunable setting lives in one versioned record in localStorage.
+// Feature modules read their section from here rather than keeping keys of their own.
+
+export const LOCALES = ['id', 'en'] as const;
+export type Locale = typeof LOCALES[number];
+
+export const THEMES = ['light', 'dark', 'system'] as const;
+export type Theme = typeof THEMES[number];
+
+// What the user has to get through before the emergency button ends a pause early
+export const EMERGENCY_FRICTIONS = ['justification', 'hold', 'breathing'] as const;
+export type EmergencyFriction = typeof EMERGENCY_FRICTIONS[number];
+
+export const BREATHING_PATTERN_IDS = ['box', '478', 'coherent'] as const;
+export type BreathingPatternId = typeof BREATHING_PATTERN_IDS[number];
+
+export interface BreathingSettings {
+  pattern: BreathingPatternId;
+  sound: boolean;
+  haptics: boolean;
+}
+
+export const BUNDLED_TONES = ['success', 'chime', 'bell', 'pulse'] as const;
+export type AlarmToneId = typeof BUNDLED_TONES[number] | 'custom';
+
+export const FADE_IN_OPTIONS = [0, 5, 15, 30]; // Seconds
+export const MAX_RING_OPTIONS = [30, 60, 120, 300]; // Seconds
+
+export interface AlarmSettings {
+  tone: AlarmToneId;
+  volume: number; // 0..1
+  fadeInSeconds: number;
+  maxRingSeconds: number;
+  silent: boolean;
+}
+
+// Bounds for any wait the user can pick, on top of per-category minimums
+export const MIN_DURATION_OPTIONS = [1, 5, 15, 30];
+export const MAX_DURATION_OPTIONS = [24 * 60, 3 * 24 * 60, 7 * 24 * 60, 14 * 24 * 60, 30 * 24 * 60];
+
+export interface DurationLimits {
+  minMinutes: number;
+  maxMinutes: number;
+}
+
+// Asking how strong the urge is partway through a long wait
+export const CHECK_IN_MODES = ['off', 'quarters', 'interval'] as const;
+export type CheckInMode = typeof CHECK_IN_MODES[number];
+export const CHECK_IN_INTERVAL_OPTIONS = [2, 4, 8, 12, 24]; // Hours
+
+export interface CheckInSettings {
+  mode: CheckInMode; // 'quarters' asks at 25, 50 and 75% of the wait
+  intervalHours: number; // Used in 'interval' mode
+}
+
+export interface Preferences {
+  locale: Locale | null; // null follows the browser language
+  theme: Theme;
+  notifications: { enabled: boolean };
+  alarm: AlarmSettings;
+  breathing: BreathingSettings;
+  emergencyFriction: EmergencyFriction;
+  durations: DurationLimits;
+  checkIns: CheckInSettings;
+}
+
+export const PREFERENCES_VERSION = 1;
+
+const PREFERENCES_KEY = 'secondthought_preferences';
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  locale: null,
+  theme: 'system',
+  notifications: { enabled: true },
+  alarm: { tone: 'success', volume: 0.8, fadeInSeconds: 5, maxRingSeconds: 60, silent: false },
+  breathing: { pattern: 'box', sound: false, haptics: false },
+  emergencyFriction: 'justification',
+  durations: { minMinutes: 1, maxMinutes: 7 * 24 * 60 },
+  checkIns: { mode: 'off', intervalHours: 4 },
+};
+
+// --- Validation ---
+
+type Raw = Record<string, unknown>;
+
+const asObject = (value: unknown): Raw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Raw : {};
+
+const oneOf = <T>(options: readonly T[], value: unknown, fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+const bool = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+
+// Each field falls back on its own, so one bad value doesn't reset everything else
+const sanitize = (raw: Raw): Preferences => {
+  const defaults = DEFAULT_PREFERENCES;
+  const alarm = asObject(raw.alarm);
+  const breathing = asObject(raw.breathing);
+  const notifications = asObject(raw.notifications);
+  const durations = asObject(raw.durations);
+  const checkIns = asObject(raw.checkIns);
+
+  return {
+    locale: oneOf<Locale | null>(LOCALES, raw.locale, null),
+    theme: oneOf(THEMES, raw.theme, defaults.theme),
+    notifications: { enabled: bool(notifications.enabled, defaults.notifications.enabled) },
+    alarm: {
+      tone: oneOf<AlarmToneId>([...BUNDLED_TONES, 'custom'], alarm.tone, defaults.alarm.tone),
+      volume: typeof alarm.volume === 'number' ? Math.min(1, Math.max(0, alarm.volume)) : defaults.alarm.volume,
+      fadeInSeconds: oneOf(FADE_IN_OPTIONS, alarm.fadeInSeconds, defaults.alarm.fadeInSeconds),
+      maxRingSeconds: oneOf(MAX_RING_OPTIONS, alarm.maxRingSeconds, defaults.alarm.maxRingSeconds),
+      silent: bool(alarm.silent, defaults.alarm.silent),
+    },
+    breathing: {
+      pattern: oneOf(BREATHING_PATTERN_IDS, breathing.pattern, defaults.breathing.pattern),
+      sound: bool(breathing.sound, defaults.breathing.sound),
+      haptics: bool(breathing.haptics, defaults.breathing.haptics),
+    },
+    emergencyFriction: oneOf(EMERGENCY_FRICTIONS, raw.emergencyFriction, defaults.emergencyFriction),
+    durations: {
+      minMinutes: oneOf(MIN_DURATION_OPTIONS, durations.minMinutes, defaults.durations.minMinutes),
+      maxMinutes: oneOf(MAX_DURATION_OPTIONS, durations.maxMinutes, defaults.durations.maxMinutes),
+    },
+    checkIns: {
+      mode: oneOf(CHECK_IN_MODES, checkIns.mode, defaults.checkIns.mode),
+      intervalHours: oneOf(CHECK_IN_INTERVAL_OPTIONS, checkIns.intervalHours, defaults.checkIns.intervalHours),
+    },
+  };
+};
+
+// --- Migrations ---
+
+// Keys each setting used before they were gathered into one record
+const LEGACY_KEYS = {
+  locale: 'secondthought_locale',
+  theme: 'secondthought_theme',
+  emergencyFriction: 'secondthought_emergency_friction',
+  breathing: 'secondthought_breathing',
+  alarm: 'secondthought_alarm',
+};
+
+const readLegacyJson = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+// Ordered migrations; the entry at index i upgrades a stored record from version i to i + 1.
+const MIGRATIONS: ((raw: Raw) => Raw)[] = [
+  // v0 -> v1: gather the settings that used to live under their own keys
+  raw => {
+    const migrated = {
+      ...raw,
+      locale: localStorage.getItem(LEGACY_KEYS.locale),
+      theme: localStorage.getItem(LEGACY_KEYS.theme),
+      emergencyFriction: localStorage.getItem(LEGACY_KEYS.emergencyFriction),
+      breathing: readLegacyJson(LEGACY_KEYS.breathing),
+      alarm: readLegacyJson(LEGACY_KEYS.alarm),
+    };
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    return migrated;
+  },
+];
+
+const persist = (preferences: Preferences) => {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify({ version: PREFERENCES_VERSION, ...preferences }));
+};
+
+const load = (): Preferences => {
+  if (typeof localStorage === 'undefined') return DEFAULT_PREFERENCES;
+
+  let raw: Raw = {};
+  try {
+    raw = asObject(JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? '{}'));
+  } catch {
+    console.warn('Stored preferences were unreadable; starting from defaults');
+  }
+
+  const version = Number(raw.version) || 0;
+  // Written by a newer version of the app: read what we understand, leave the record alone
+  if (version > PREFERENCES_VERSION) return sanitize(raw);
+
+  for (let v = version; v < PREFERENCES_VERSION; v++) raw = MIGRATIONS[v](raw);
+  const preferences = sanitize(raw);
+  if (version < PREFERENCES_VERSION) persist(preferences);
+  return preferences;
+};
+
+// --- Store ---
+
+let current: Preferences | null = null;
+const listeners = new Set<(preferences: Preferences) => void>();
+
+export const getPreferences = (): Preferences => {
+  current ??= load();
+  return current;
+};
+
+// Sections are replaced whole: pass `{ alarm: { ...prefs.alarm, volume } }` to change one field
+export const updatePreferences = (changes: Partial<Preferences>): Preferences => {
+  current = sanitize({ ...getPreferences(), ...changes });
+  persist(current);
+  listeners.forEach(listener => listener(current!));
+  return current;
+};
+
+// The language is kept; it is switched through the i18n context, not here
+export const resetPreferences = (): Preferences =>
+  updatePreferences({ ...DEFAULT_PREFERENCES, locale: getPreferences().locale });
+
+export const subscribePreferences = (listener: (preferences: Preferences) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,62 @@
+import { HaltEmotion, QuestionKind, ReflectionAnswer, ReflectionQuestion } from '../types';
+
+export const QUESTION_KINDS: QuestionKind[] = ['text', 'intensity', 'emotion', 'yesNo'];
+export const HALT_EMOTIONS: HaltEmotion[] = ['hungry', 'angry', 'lonely', 'tired'];
+
+export const INTENSITY_MIN = 1;
+export const INTENSITY_MAX = 10;
+
+// Kinds that describe how the user feels right now, so they are worth asking again after the wait
+const RECHECK_KINDS: QuestionKind[] = ['intensity', 'emotion', 'yesNo'];
+
+export const emptyAnswer = (question: ReflectionQuestion): ReflectionAnswer => {
+  const base = { questionId: question.id, question: question.prompt };
+  switch (question.kind) {
+    case 'text': return { ...base, kind: 'text', value: '' };
+    case 'intensity': return { ...base, kind: 'intensity', value: null };
+    case 'emotion': return { ...base, kind: 'emotion', value: [] };
+    case 'yesNo': return { ...base, kind: 'yesNo', value: null };
+  }
+};
+
+export const isAnswered = (answer: ReflectionAnswer): boolean => {
+  switch (answer.kind) {
+    case 'text': return answer.value.trim() !== '';
+    case 'emotion': return answer.value.length > 0;
+    default: return answer.value !== null;
+  }
+};
+
+// Rebuilt from the stored answers rather than the category, so editing the
+// category while a decision is waiting can't break the comparison
+export const recheckQuestions = (answers: ReflectionAnswer[]): ReflectionQuestion[] =>
+  answers
+    .filter(answer => RECHECK_KINDS.includes(answer.kind) && isAnswered(answer))
+    .map(answer => ({ id: answer.questionId, kind: answer.kind, prompt: answer.question }));
+
+export interface AnswerComparison {
+  before: ReflectionAnswer;
+  after: ReflectionAnswer;
+  change: number | null; // after - before, for intensity answers only
+}
+
+export const compareAnswers = (before: ReflectionAnswer[], after: ReflectionAnswer[]): AnswerComparison[] =>
+  after.flatMap(answer => {
+    const previous = before.find(b => b.questionId === answer.questionId && b.kind === answer.kind);
+    if (!previous || !isAnswered(answer)) return [];
+
+    const change = answer.kind === 'intensity' && previous.kind === 'intensity' && answer.value !== null && previous.value !== null
+      ? answer.value - previous.value
+      : null;
+    return [{ before: previous, after: answer, change }];
+  });
+
+// Untranslated rendering for exports
+export const answerToText = (answer: ReflectionAnswer): string => {
+  switch (answer.kind) {
+    case 'text': return answer.value;
+    case 'intensity': return answer.value === null ? '' : `${answer.value}/${INTENSITY_MAX}`;
+    case 'emotion': return answer.value.join('/');
+    case 'yesNo': return answer.value === null ? '' : answer.value ? 'yes' : 'no';
+  }
+};
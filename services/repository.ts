@@ -0,0 +1,63 @@
+import { createContext, useContext } from 'react';
+import { Category, Decision, DecisionStatus, QuarantinedEntry, WishlistItem } from '../types';
+
+// Persistence boundary for decisions. Screens only talk to this interface,
+// which lets the app swap IndexedDB for an in-memory store (tests, no-IDB browsers).
+export interface DecisionRepository {
+  getActiveDecisions(): Promise<Decision[]>;
+  getActiveDecision(id: string): Promise<Decision | null>;
+  // Inserts the decision, or replaces the stored one with the same id
+  saveActiveDecision(decision: Decision): Promise<void>;
+  removeActiveDecision(id: string): Promise<void>;
+  // Journal history is append-only: finished decisions are never edited or removed
+  getHistory(): Promise<Decision[]>;
+  getHistoryEntry(id: string): Promise<Decision | null>;
+  appendHistory(decision: Decision): Promise<void>;
+  // Moves a finished decision from the active set into the journal in one step
+  archiveDecision(decision: Decision): Promise<void>;
+  // Replaces stored journal entries by id. Only for re-encoding them when the
+  // app lock is turned on or off; the content itself must not change.
+  rewriteHistory(decisions: Decision[]): Promise<void>;
+  // The decision being composed in the /type -> /reflection flow, so a reload doesn't lose it
+  getDraft(): Promise<Decision | null>;
+  saveDraft(draft: Decision): Promise<void>;
+  clearDraft(): Promise<void>;
+  // SHOPPING items cooling off for days; they reach the journal only once bought or dropped
+  getWishlist(): Promise<WishlistItem[]>;
+  saveWishlistItem(item: WishlistItem): Promise<void>;
+  // Replaces the wishlist item with its journal entry in one step
+  archiveWishlistItem(id: string, decision: Decision): Promise<void>;
+  // Categories are never deleted, only archived, so every decision keeps resolving
+  getCategories(): Promise<Category[]>;
+  // Upserts by id in one transaction, which keeps reorders consistent
+  saveCategories(categories: Category[]): Promise<void>;
+  getQuarantine(): Promise<QuarantinedEntry[]>;
+  clearQuarantine(): Promise<void>;
+}
+
+export const RepositoryContext = createContext<DecisionRepository | null>(null);
+
+export const useRepository = (): DecisionRepository => {
+  const repository = useContext(RepositoryContext);
+  if (!repository) {
+    throw new Error("useRepository must be used inside a RepositoryContext provider");
+  }
+  return repository;
+};
+
+// Oldest first, i.e. the order entries were appended in
+export const sortHistory = (history: Decision[]): Decision[] =>
+  [...history].sort((a, b) => (a.resolvedAt ?? a.createdAt) - (b.resolvedAt ?? b.createdAt));
+
+export const createDraftDecision = (): Decision => {
+  return {
+    id: crypto.randomUUID(),
+    categoryId: '', // Empty until a type is picked
+    text: '',
+    startTime: 0,
+    durationMinutes: 0,
+    endTime: 0,
+    status: DecisionStatus.DRAFT,
+    createdAt: Date.now(),
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DecisionStatus, DecisionType } from '../types';
+import { describeProblem, isDecision, problem, upgradeCategoryRecord, upgradeDecisionRecord, validateDecision } from './schema';
+
+const record = {
+  id: 'd1',
+  categoryId: DecisionType.OTHER,
+  text: 'Beli sepatu',
+  startTime: 1000,
+  durationMinutes: 60,
+  endTime: 1000 + 60 * 60 * 1000,
+  status: DecisionStatus.WAITING,
+  createdAt: 1000,
+};
+
+describe('validateDecision', () => {
+  it('accepts a complete decision', () => {
+    expect(validateDecision(record)).toBeNull();
+  });
+
+  it('names the first problem as a code', () => {
+    expect(validateDecision(null)).toBe('notObject');
+    expect(validateDecision({ ...record, id: '' })).toBe('missing:id');
+    expect(validateDecision({ ...record, status: 'LOST' })).toBe('unknownValue:status');
+    expect(validateDecision({ ...record, endTime: Number.NaN })).toBe('notNumber:endTime');
+    expect(validateDecision({ ...record, snoozes: {} })).toBe('notList:snoozes');
+    expect(validateDecision({ ...record, wishlist: { url: 'javascript:alert(1)', recheckCount: 0 } })).toBe('invalid:wishlist');
+  });
+});
+
+describe('describeProblem', () => {
+  it('translates codes with the field filled in', () => {
+    expect(describeProblem(problem('missing', 'id'), 'en')).toBe('id is missing');
+    expect(describeProblem(problem('missing', 'id'), 'id')).toBe('id tidak ada');
+    expect(describeProblem(problem('brokenJson'), 'en')).toBe('broken JSON');
+  });
+
+  it('passes through sentences quarantined by older versions', () => {
+    expect(describeProblem('id tidak ada', 'en')).toBe('id tidak ada');
+  });
+});
+
+describe('upgradeDecisionRecord', () => {
+  it('moves the old type enum to a category id', () => {
+    const { categoryId, ...rest } = record;
+    const upgraded = upgradeDecisionRecord({ ...rest, type: DecisionType.SHOPPING });
+    expect(upgraded).toMatchObject({ categoryId: DecisionType.SHOPPING });
+    expect(isDecision(upgraded)).toBe(true);
+  });
+
+  it('turns plain text answers into typed ones', () => {
+    const upgraded = upgradeDecisionRecord({ ...record, reflectionAnswers: [{ question: 'Kenapa?', answer: 'Bosan' }] });
+    expect(upgraded).toMatchObject({ reflectionAnswers: [{ questionId: 'q0', question: 'Kenapa?', kind: 'text', value: 'Bosan' }] });
+    expect(isDecision(upgraded)).toBe(true);
+  });
+
+  it('leaves current records untouched', () => {
+    expect(upgradeDecisionRecord(record)).toBe(record);
+  });
+});
+
+describe('upgradeCategoryRecord', () => {
+  it('turns plain string questions into text questions', () => {
+    expect(upgradeCategoryRecord({ id: 'c1', reflectionQuestions: ['Perlu?'] })).toEqual({
+      id: 'c1',
+      reflectionQuestions: [{ id: 'q0', kind: 'text', prompt: 'Perlu?' }],
+    });
+  });
+});
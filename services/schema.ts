@@ -0,0 +1,166 @@
+import { Category, CategoryColor, Decision, DecisionStatus, MessageOutcome, QuestionKind, WishlistItem } from '../types';
+import { CATEGORY_COLORS } from './categories';
+import { MESSAGE_OUTCOMES } from './messageVault';
+import { QUESTION_KINDS } from './questionnaire';
+import { MessageKey, getLocale, translate } from './i18n';
+import { isWebUrl } from './wishlist';
+
+// Validators report problems as locale-neutral codes, `code` or `code:field`, so they can be
+// stored with quarantined records as-is and translated only when shown (see describeProblem)
+export type ProblemCode = 'notObject' | 'missing' | 'notText' | 'notNumber' | 'notBoolean' | 'notList' | 'invalid' | 'unknownValue' | 'notWebUrl' | 'brokenJson';
+
+export const problem = (code: ProblemCode, field?: string): string => (field ? `${code}:${field}` : code);
+
+const PROBLEM_MESSAGES: Record<ProblemCode, MessageKey> = {
+  notObject: 'schema.notObject',
+  missing: 'schema.missing',
+  notText: 'schema.notText',
+  notNumber: 'schema.notNumber',
+  notBoolean: 'schema.notBoolean',
+  notList: 'schema.notList',
+  invalid: 'schema.invalid',
+  unknownValue: 'schema.unknownValue',
+  notWebUrl: 'schema.notWebUrl',
+  brokenJson: 'schema.brokenJson',
+};
+
+export const describeProblem = (reason: string, locale = getLocale()): string => {
+  const [code, field = ''] = reason.split(':');
+  const key = PROBLEM_MESSAGES[code as ProblemCode];
+  // Entries quarantined by older versions kept a ready-made sentence
+  return key ? translate(locale, key, { field }) : reason;
+};
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: 'string' | 'number') =>
+  value === undefined || typeof value === type;
+
+const isOptionalWebUrl = (value: unknown) =>
+  value === undefined || (typeof value === 'string' && isWebUrl(value));
+
+const isQuestionKind = (value: unknown): value is QuestionKind => QUESTION_KINDS.includes(value as QuestionKind);
+
+const isAnswer = (value: unknown) =>
+  isObject(value) && typeof value.questionId === 'string' && typeof value.question === 'string' && isQuestionKind(value.kind);
+
+const isMessage = (value: unknown) =>
+  isObject(value) && typeof value.recipient === 'string' && typeof value.body === 'string' &&
+  isOptional(value.revisedBody, 'string') && (value.outcome === undefined || MESSAGE_OUTCOMES.includes(value.outcome as MessageOutcome));
+
+const isCheckIn = (value: unknown) =>
+  isObject(value) && typeof value.scheduledAt === 'number' && typeof value.answeredAt === 'number' && typeof value.strength === 'number';
+
+const isSealed = (value: unknown) =>
+  value === undefined || (isObject(value) && typeof value.iv === 'string' && typeof value.data === 'string');
+
+const isWishlistRecord = (value: unknown) =>
+  isObject(value) && isOptionalWebUrl(value.url) && isOptional(value.notes, 'string') && typeof value.recheckCount === 'number';
+
+const isQuestion = (value: unknown) =>
+  isObject(value) && typeof value.id === 'string' && typeof value.prompt === 'string' && isQuestionKind(value.kind);
+
+// Returns the problem code for why the value is not a usable Decision, or null when it is
+export const validateDecision = (value: unknown): string | null => {
+  if (!isObject(value)) return problem('notObject');
+  if (typeof value.id !== 'string' || !value.id) return problem('missing', 'id');
+  if (typeof value.categoryId !== 'string' || !value.categoryId) return problem('missing', 'categoryId');
+  if (!Object.values(DecisionStatus).includes(value.status as DecisionStatus)) return problem('unknownValue', 'status');
+  if (typeof value.text !== 'string') return problem('notText', 'text');
+  for (const key of ['startTime', 'durationMinutes', 'endTime', 'createdAt']) {
+    if (typeof value[key] !== 'number' || isNaN(value[key] as number)) return problem('notNumber', key);
+  }
+  for (const key of ['reflectionText', 'finalNote', 'currency', 'emergencyReason']) {
+    if (!isOptional(value[key], 'string')) return problem('notText', key);
+  }
+  for (const key of ['amount', 'resolvedAt', 'emergencySkippedAt', 'emergencyForfeitedMinutes', 'breathingCycles', 'breathingSeconds']) {
+    if (!isOptional(value[key], 'number')) return problem('notNumber', key);
+  }
+  if (value.snoozes !== undefined && !Array.isArray(value.snoozes)) return problem('notList', 'snoozes');
+  if (value.checkInSchedule !== undefined && !(Array.isArray(value.checkInSchedule) && value.checkInSchedule.every(t => typeof t === 'number'))) {
+    return problem('notList', 'checkInSchedule');
+  }
+  if (value.checkIns !== undefined && !(Array.isArray(value.checkIns) && value.checkIns.every(isCheckIn))) return problem('invalid', 'checkIns');
+  if (value.message !== undefined && !isMessage(value.message)) return problem('invalid', 'message');
+  if (value.wishlist !== undefined && !isWishlistRecord(value.wishlist)) return problem('invalid', 'wishlist');
+  if (!isSealed(value.sealed)) return problem('invalid', 'sealed');
+  for (const key of ['reflectionAnswers', 'resultAnswers']) {
+    if (value[key] !== undefined && !(Array.isArray(value[key]) && (value[key] as unknown[]).every(isAnswer))) return problem('notList', key);
+  }
+  return null;
+};
+
+export const isDecision = (value: unknown): value is Decision => validateDecision(value) === null;
+
+// Brings records written by older versions up to the current Decision shape:
+// - a `type` enum instead of a category id (built-in category ids are those enum values)
+// - reflection answers stored as plain `{ question, answer }` text pairs
+export const upgradeDecisionRecord = (value: unknown): unknown => {
+  if (!isObject(value)) return value;
+  let record = value;
+
+  if (!('categoryId' in record) && typeof record.type === 'string') {
+    const { type, ...rest } = record;
+    record = { ...rest, categoryId: type };
+  }
+  if (Array.isArray(record.reflectionAnswers) && record.reflectionAnswers.some(entry => isObject(entry) && !('kind' in entry))) {
+    record = {
+      ...record,
+      reflectionAnswers: record.reflectionAnswers.map((entry, idx) =>
+        isObject(entry) && !('kind' in entry)
+          ? { questionId: `q${idx}`, question: entry.question, kind: 'text', value: entry.answer }
+          : entry
+      ),
+    };
+  }
+  return record;
+};
+
+// Categories saved before typed questions kept them as plain strings
+export const upgradeCategoryRecord = (value: unknown): unknown => {
+  if (!isObject(value) || !Array.isArray(value.reflectionQuestions) || !value.reflectionQuestions.some(q => typeof q === 'string')) return value;
+  return {
+    ...value,
+    reflectionQuestions: value.reflectionQuestions.map((prompt, idx) =>
+      typeof prompt === 'string' ? { id: `q${idx}`, kind: 'text', prompt } : prompt
+    ),
+  };
+};
+
+export const validateCategory = (value: unknown): string | null => {
+  if (!isObject(value)) return problem('notObject');
+  if (typeof value.id !== 'string' || !value.id) return problem('missing', 'id');
+  if (typeof value.name !== 'string') return problem('notText', 'name');
+  if (typeof value.icon !== 'string' || !value.icon) return problem('missing', 'icon');
+  if (!CATEGORY_COLORS.includes(value.color as CategoryColor)) return problem('unknownValue', 'color');
+  if (typeof value.order !== 'number' || isNaN(value.order)) return problem('notNumber', 'order');
+  if (value.archived !== undefined && typeof value.archived !== 'boolean') return problem('notBoolean', 'archived');
+  for (const key of ['defaultDurationMinutes', 'minDurationMinutes']) {
+    if (!isOptional(value[key], 'number')) return problem('notNumber', key);
+  }
+  if (value.reflectionQuestions !== undefined && !(Array.isArray(value.reflectionQuestions) && value.reflectionQuestions.every(isQuestion))) {
+    return problem('notList', 'reflectionQuestions');
+  }
+  return null;
+};
+
+export const isCategory = (value: unknown): value is Category => validateCategory(value) === null;
+
+export const validateWishlistItem = (value: unknown): string | null => {
+  if (!isObject(value)) return problem('notObject');
+  if (typeof value.id !== 'string' || !value.id) return problem('missing', 'id');
+  if (typeof value.name !== 'string') return problem('notText', 'name');
+  for (const key of ['currency', 'notes']) {
+    if (!isOptional(value[key], 'string')) return problem('notText', key);
+  }
+  if (!isOptionalWebUrl(value.url)) return problem('notWebUrl', 'url');
+  if (!isOptional(value.amount, 'number')) return problem('notNumber', 'amount');
+  for (const key of ['addedAt', 'coolOffDays', 'recheckEveryDays', 'lastCheckedAt', 'recheckCount']) {
+    if (typeof value[key] !== 'number' || isNaN(value[key] as number)) return problem('notNumber', key);
+  }
+  if (!isSealed(value.sealed)) return problem('invalid', 'sealed');
+  return null;
+};
+
+export const isWishlistItem = (value: unknown): value is WishlistItem => validateWishlistItem(value) === null;
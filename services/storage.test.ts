@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DecisionStatus, DecisionType } from '../types';
+import { SCHEMA_VERSION, getDecisions, getHistory, getQuarantine, getSchemaVersion, runMigrations } from './storage';
+
+const record = {
+  id: 'd1',
+  categoryId: DecisionType.OTHER,
+  text: 'Beli sepatu',
+  startTime: 1000,
+  durationMinutes: 60,
+  endTime: 1000 + 60 * 60 * 1000,
+  status: DecisionStatus.WAITING,
+  createdAt: 1000,
+};
+
+const createStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); },
+    removeItem: (key: string) => { values.delete(key); },
+  };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+describe('readCollection quarantine', () => {
+  it('moves bad entries aside and keeps the rest', () => {
+    localStorage.setItem('secondthought_active_decisions', JSON.stringify([record, { ...record, id: 'd2', text: 42 }]));
+
+    expect(getDecisions().map(d => d.id)).toEqual(['d1']);
+    expect(getQuarantine()).toMatchObject([{ key: 'secondthought_active_decisions', reason: 'notText:text' }]);
+    // The bad entry is gone from the collection, so it is quarantined only once
+    getDecisions();
+    expect(getQuarantine()).toHaveLength(1);
+  });
+
+  it('quarantines a collection that is not readable at all', () => {
+    localStorage.setItem('secondthought_decision_history', '[{ broken');
+
+    expect(getHistory()).toEqual([]);
+    expect(getQuarantine()).toMatchObject([{ raw: '[{ broken', reason: 'brokenJson' }]);
+    expect(localStorage.getItem('secondthought_decision_history')).toBeNull();
+  });
+});
+
+describe('runMigrations', () => {
+  it('folds the single legacy decision into the collection and upgrades its type', () => {
+    const { categoryId, ...legacy } = record;
+    localStorage.setItem('secondthought_active_decision', JSON.stringify({ ...legacy, type: DecisionType.MESSAGE }));
+
+    runMigrations();
+
+    expect(getSchemaVersion()).toBe(SCHEMA_VERSION);
+    expect(getDecisions()).toMatchObject([{ id: 'd1', categoryId: DecisionType.MESSAGE }]);
+    expect(localStorage.getItem('secondthought_active_decision')).toBeNull();
+  });
+
+  it('quarantines a legacy decision that cannot be read', () => {
+    localStorage.setItem('secondthought_active_decision', JSON.stringify({ ...record, id: '' }));
+
+    runMigrations();
+
+    expect(getDecisions()).toEqual([]);
+    expect(getQuarantine()).toMatchObject([{ key: 'secondthought_active_decision', reason: 'missing:id' }]);
+  });
+});
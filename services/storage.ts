@@ -1,29 +1,123 @@
-import { Decision, DecisionStatus, DecisionType } from '../types';
+// Legacy localStorage backend. Data written by older versions lives here until
+// the IndexedDB repository imports it once on first open.
+import { Decision, QuarantinedEntry } from '../types';
+import { isDecision, problem, upgradeDecisionRecord, validateDecision } from './schema';
 
-const STORAGE_KEY = 'secondthought_active_decision';
+const STORAGE_KEY = 'secondthought_active_decisions';
+const LEGACY_STORAGE_KEY = 'secondthought_active_decision';
+const HISTORY_KEY = 'secondthought_decision_history';
+const SCHEMA_VERSION_KEY = 'secondthought_schema_version';
+const QUARANTINE_KEY = 'secondthought_quarantine';
 
-export const saveDecision = (decision: Decision): void => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(decision));
+export const SCHEMA_VERSION = 3;
+
+const parseJson = (data: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(data) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+export const getQuarantine = (): QuarantinedEntry[] => {
+  const data = localStorage.getItem(QUARANTINE_KEY);
+  const parsed = data ? parseJson(data) : null;
+  return parsed?.ok && Array.isArray(parsed.value) ? parsed.value : [];
+};
+
+const quarantine = (key: string, raw: string, reason: string): void => {
+  console.warn(`Quarantined unreadable entry from ${key}: ${reason}`);
+  const entries = getQuarantine();
+  entries.push({ key, raw, reason, quarantinedAt: Date.now() });
+  localStorage.setItem(QUARANTINE_KEY, JSON.stringify(entries));
+};
+
+// Reads a stored list of decisions, moving anything that fails validation
+// into quarantine so one bad record can't take the whole app down.
+const readCollection = (key: string): Decision[] => {
+  const data = localStorage.getItem(key);
+  if (!data) return [];
+
+  const parsed = parseJson(data);
+  if (!parsed.ok || !Array.isArray(parsed.value)) {
+    quarantine(key, data, problem(parsed.ok ? 'notList' : 'brokenJson'));
+    localStorage.removeItem(key);
+    return [];
+  }
+
+  const upgraded = parsed.value.map(upgradeDecisionRecord);
+  const valid = upgraded.filter((entry): entry is Decision => {
+    const problem = validateDecision(entry);
+    if (problem) quarantine(key, JSON.stringify(entry), problem);
+    return !problem;
+  });
+  if (valid.length !== parsed.value.length || upgraded.some((entry, i) => entry !== parsed.value[i])) {
+    localStorage.setItem(key, JSON.stringify(valid));
+  }
+  return valid;
+};
+
+// Ordered migrations; the entry at index i upgrades data from version i to i + 1.
+const MIGRATIONS: (() => void)[] = [
+  // v0 -> v1: stamp the schema; data from before versioning is already in the v1 shape
+  () => {},
+  // v1 -> v2: fold the single active decision into the active decisions collection
+  () => {
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!legacy) return;
+
+    const parsed = parseJson(legacy);
+    const legacyDecision = parsed.ok ? upgradeDecisionRecord(parsed.value) : null;
+    if (isDecision(legacyDecision)) {
+      const decisions = readCollection(STORAGE_KEY);
+      if (!decisions.some(d => d.id === legacyDecision.id)) {
+        decisions.push(legacyDecision);
+      }
+      writeDecisions(decisions);
+    } else {
+      quarantine(LEGACY_STORAGE_KEY, legacy, parsed.ok ? validateDecision(legacyDecision) ?? '' : problem('brokenJson'));
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  },
+  // v2 -> v3: decisions reference a category id instead of the `type` enum.
+  // readCollection upgrades records as it reads them and writes the result back.
+  () => {
+    readCollection(STORAGE_KEY);
+    readCollection(HISTORY_KEY);
+  },
+];
+
+export const getSchemaVersion = (): number => {
+  const version = parseInt(localStorage.getItem(SCHEMA_VERSION_KEY) ?? '0', 10);
+  return isNaN(version) ? 0 : version;
+};
+
+// Runs once on startup. A failing migration stops the chain so it can be retried on the next load.
+export const runMigrations = (): void => {
+  for (let version = getSchemaVersion(); version < SCHEMA_VERSION; version++) {
+    try {
+      MIGRATIONS[version]();
+      localStorage.setItem(SCHEMA_VERSION_KEY, String(version + 1));
+    } catch (e) {
+      console.error(`Storage migration to v${version + 1} failed`, e);
+      return;
+    }
+  }
+};
+
+const writeDecisions = (decisions: Decision[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(decisions));
 };
 
-export const getDecision = (): Decision | null => {
-  const data = localStorage.getItem(STORAGE_KEY);
-  return data ? JSON.parse(data) : null;
+export const getDecisions = (): Decision[] => {
+  return readCollection(STORAGE_KEY);
 };
 
-export const clearDecision = (): void => {
-  localStorage.removeItem(STORAGE_KEY);
+// Journal history is append-only: finished decisions are never edited or removed.
+export const getHistory = (): Decision[] => {
+  return readCollection(HISTORY_KEY);
 };
 
-export const createDraftDecision = (): Decision => {
-  return {
-    id: crypto.randomUUID(),
-    type: DecisionType.OTHER,
-    text: '',
-    startTime: 0,
-    durationMinutes: 0,
-    endTime: 0,
-    status: DecisionStatus.DRAFT,
-    createdAt: Date.now(),
-  };
+export const clearAll = (): void => {
+  [STORAGE_KEY, LEGACY_STORAGE_KEY, HISTORY_KEY, SCHEMA_VERSION_KEY, QUARANTINE_KEY].forEach(key => localStorage.removeItem(key));
 };
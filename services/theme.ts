@@ -0,0 +1,19 @@
+import { getPreferences, subscribePreferences } from './preferences';
+
+// index.html runs the same check inline, from the stored preferences, before first paint
+
+const systemQuery = typeof window !== 'undefined' ? window.matchMedia('(prefers-color-scheme: dark)') : null;
+
+const applyTheme = () => {
+  const { theme } = getPreferences();
+  const dark = theme === 'dark' || (theme === 'system' && !!systemQuery?.matches);
+  document.documentElement.classList.toggle('dark', dark);
+  document.documentElement.classList.toggle('light', !dark);
+};
+
+if (typeof document !== 'undefined') {
+  applyTheme();
+  subscribePreferences(applyTheme);
+  // Follow the OS switching between light and dark while the app is open
+  systemQuery?.addEventListener('change', applyTheme);
+}
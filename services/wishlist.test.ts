@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { isWebUrl, normalizeUrl } from './wishlist';
+
+describe('normalizeUrl', () => {
+  it('adds https to pasted links without a scheme', () => {
+    expect(normalizeUrl('  tokopedia.com/sepatu ')).toBe('https://tokopedia.com/sepatu');
+  });
+
+  it('keeps http and https links', () => {
+    expect(normalizeUrl('http://example.com')).toBe('http://example.com/');
+    expect(normalizeUrl('HTTPS://Example.com/a?b=1')).toBe('https://example.com/a?b=1');
+  });
+
+  it('drops anything that is not a web link', () => {
+    expect(normalizeUrl('')).toBeUndefined();
+    expect(normalizeUrl('javascript:alert(1)')).toBeUndefined();
+    expect(normalizeUrl('JavaScript:alert(1)')).toBeUndefined();
+    expect(normalizeUrl('data:text/html,<script>alert(1)</script>')).toBeUndefined();
+    expect(normalizeUrl('not a link')).toBeUndefined();
+  });
+});
+
+describe('isWebUrl', () => {
+  it('only accepts absolute http and https links', () => {
+    expect(isWebUrl('https://example.com')).toBe(true);
+    expect(isWebUrl('http://example.com')).toBe(true);
+    expect(isWebUrl('example.com')).toBe(false);
+    expect(isWebUrl('javascript:alert(1)')).toBe(false);
+    expect(isWebUrl('ftp://example.com')).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { Decision, DecisionStatus, DecisionType, WishlistItem } from '../types';
+
+// Shopping urges often need days, so these go well past the wait limits in settings
+export const COOL_OFF_OPTIONS = [3, 7, 14, 30, 90]; // Days
+export const RECHECK_OPTIONS = [1, 3, 7]; // Days
+
+export const DEFAULT_COOL_OFF_DAYS = 7;
+export const DEFAULT_RECHECK_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type NewWishlistItem = Pick<WishlistItem, 'name' | 'amount' | 'currency' | 'url' | 'notes' | 'coolOffDays' | 'recheckEveryDays'>;
+
+export const createWishlistItem = (fields: NewWishlistItem, now = Date.now()): WishlistItem => ({
+  id: crypto.randomUUID(),
+  ...fields,
+  addedAt: now,
+  lastCheckedAt: now,
+  recheckCount: 0,
+});
+
+// Only web links are ever rendered as links; anything else (javascript:, data:) could run script
+export const isWebUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Accepts what people paste ("tokopedia.com/..."); anything that isn't a web link is dropped
+export const normalizeUrl = (raw: string): string | undefined => {
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return isWebUrl(url.href) ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const daysSurvived = (item: WishlistItem, now: number): number =>
+  Math.max(0, Math.floor((now - item.addedAt) / DAY_MS));
+
+export const coolOffEndsAt = (item: WishlistItem): number => item.addedAt + item.coolOffDays * DAY_MS;
+
+export const isCoolingOff = (item: WishlistItem, now: number): boolean => now < coolOffEndsAt(item);
+
+// 0..100, for the progress bar
+export const coolOffProgress = (item: WishlistItem, now: number): number =>
+  Math.min(100, ((now - item.addedAt) / (item.coolOffDays * DAY_MS)) * 100);
+
+export const isRecheckDue = (item: WishlistItem, now: number): boolean =>
+  now - item.lastCheckedAt >= item.recheckEveryDays * DAY_MS;
+
+export const confirmStillWanted = (item: WishlistItem, now: number): WishlistItem => ({
+  ...item,
+  lastCheckedAt: now,
+  recheckCount: item.recheckCount + 1,
+});
+
+// Bought items count as acted-on decisions and dropped ones as resisted, like a finished wait
+export const settleWishlistItem = (item: WishlistItem, bought: boolean, now: number, note?: string): Decision => ({
+  id: item.id,
+  categoryId: DecisionType.SHOPPING,
+  text: item.name,
+  amount: item.amount,
+  currency: item.currency,
+  startTime: item.addedAt,
+  durationMinutes: Math.round((now - item.addedAt) / 60000),
+  endTime: now,
+  status: bought ? DecisionStatus.COMPLETED : DecisionStatus.CANCELLED,
+  createdAt: item.addedAt,
+  finalNote: note,
+  resolvedAt: now,
+  wishlist: { url: item.url, notes: item.notes, recheckCount: item.recheckCount },
+});
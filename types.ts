@@ -1,3 +1,5 @@
+// Ids of the built-in categories seeded on first run. Flows that only make
+// sense for one of them (e.g. the price field for SHOPPING) key off these.
 export enum DecisionType {
   SHOPPING = 'SHOPPING',
   MESSAGE = 'MESSAGE',
@@ -14,15 +16,127 @@ export enum DecisionStatus {
   SNOOZED = 'SNOOZED'
 }
 
+export interface SnoozeRound {
+  snoozedAt: number; // Timestamp when the user chose to snooze
+  durationMinutes: number; // Extra waiting time picked for this round
+  note?: string; // What was still bothering the user at that point
+}
+
+export interface UrgeCheckIn {
+  scheduledAt: number; // The planned check-in this answers
+  answeredAt: number;
+  strength: number; // 1..10, same scale as the intensity question
+}
+
+export type CategoryColor = 'green' | 'blue' | 'orange' | 'rose' | 'purple' | 'yellow' | 'teal' | 'gray';
+
+export interface Category {
+  id: string; // A DecisionType value for built-ins, a UUID for user-created ones
+  name: string; // Empty for untouched built-ins so they follow the UI language
+  icon: string; // Material Symbols ligature, e.g. 'shopping_cart'
+  color: CategoryColor;
+  order: number; // Position in the picker, ascending
+  archived?: boolean; // Hidden from the picker but kept so older decisions still resolve
+  defaultDurationMinutes?: number; // Recommended delay, highlighted on the delay screen
+  minDurationMinutes?: number; // Shorter delays can't be picked for this category
+  reflectionQuestions?: ReflectionQuestion[]; // Unset means the built-in (translated) questions
+}
+
+export type QuestionKind = 'text' | 'intensity' | 'emotion' | 'yesNo';
+
+// HALT: the four states that most often drive impulsive choices
+export type HaltEmotion = 'hungry' | 'angry' | 'lonely' | 'tired';
+
+export interface ReflectionQuestion {
+  id: string; // Stable within its category; links answers before and after the wait
+  kind: QuestionKind;
+  prompt: string;
+}
+
+interface AnswerBase {
+  questionId: string;
+  question: string; // Copied from the category so later edits don't rewrite history
+}
+
+// Unanswered questions keep their empty value ('' / null / []) so the order is preserved
+export type ReflectionAnswer =
+  | AnswerBase & { kind: 'text'; value: string }
+  | AnswerBase & { kind: 'intensity'; value: number | null } // 1..10
+  | AnswerBase & { kind: 'emotion'; value: HaltEmotion[] }
+  | AnswerBase & { kind: 'yesNo'; value: boolean | null };
+
+// What happened to a vaulted message once the wait was over
+export type MessageOutcome = 'sent' | 'rewritten' | 'discarded';
+
+// The message a MESSAGE decision is about; kept out of sight until the wait ends
+export interface MessageDraft {
+  recipient: string;
+  body: string; // Exactly as written in the moment, never edited afterwards
+  revisedBody?: string; // The reworded version, when the user rewrote it before sending
+  outcome?: MessageOutcome;
+}
+
+// A SHOPPING impulse parked on the wishlist for days instead of a timed wait
+export interface WishlistItem {
+  id: string; // Becomes the Decision id once the item is bought or dropped
+  name: string;
+  amount?: number;
+  currency?: string; // ISO 4217 code for `amount`
+  url?: string; // Product page
+  notes?: string;
+  addedAt: number;
+  coolOffDays: number; // Can't be marked bought before this many days have passed
+  recheckEveryDays: number; // How often the user is asked whether they still want it
+  lastCheckedAt: number; // When they last said they still want it (starts at addedAt)
+  recheckCount: number; // How many of those prompts they answered with "still want it"
+  sealed?: SealedFields; // Set while the app lock is on; `name` is then empty until unsealed
+}
+
+// What a settled wishlist item keeps in the journal beyond the usual decision fields
+export interface WishlistRecord {
+  url?: string;
+  notes?: string;
+  recheckCount: number;
+}
+
+// Private fields of a decision or wishlist item encrypted with the app lock key, base64-encoded
+export interface SealedFields {
+  iv: string;
+  data: string;
+}
+
 export interface Decision {
   id: string;
-  type: DecisionType;
+  categoryId: string;
   text: string;
   reflectionText?: string;
+  reflectionAnswers?: ReflectionAnswer[]; // One entry per category question, in order
+  resultAnswers?: ReflectionAnswer[]; // The same questions asked again once the wait was over
+  amount?: number; // Price of the item for SHOPPING decisions
+  currency?: string; // ISO 4217 code for `amount`
+  message?: MessageDraft; // Set for MESSAGE decisions when the user wrote out the message
+  wishlist?: WishlistRecord; // Set when the decision came off the wishlist rather than a timed wait
   startTime: number; // Timestamp when the waiting started
   durationMinutes: number; // How long to wait in minutes
   endTime: number; // Timestamp when waiting ends
   status: DecisionStatus;
   createdAt: number;
   finalNote?: string; // New field for end-of-process reflection
+  resolvedAt?: number; // Timestamp when the user made the final call
+  emergencySkippedAt?: number; // Set when the wait was cut short via the emergency button
+  emergencyForfeitedMinutes?: number; // Waiting time that was left when the pause was skipped
+  emergencyReason?: string; // Why the user said they couldn't wait
+  breathingCycles?: number; // Guided breathing cycles completed during the wait
+  breathingSeconds?: number; // Time spent in those cycles
+  snoozes?: SnoozeRound[]; // Every time the wait was extended from the result screen
+  checkInSchedule?: number[]; // When to ask about the urge during the current wait, ascending
+  checkIns?: UrgeCheckIn[]; // Answers to those prompts, across every round of waiting
+  sealed?: SealedFields; // Set while the app lock is on; `text` is then empty until unsealed
+}
+
+export interface QuarantinedEntry {
+  key: string; // Where the value was read from
+  raw: string; // Original serialized value, kept verbatim so nothing is lost
+  reason: string;
+  quarantinedAt: number;
 }